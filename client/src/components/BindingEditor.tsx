@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Keyboard, Plus, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GESTURE_LABELS } from '@/components/MotionGestures';
+import { POSE_LABELS } from '@/components/PoseTrainer';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import {
+  DEFAULT_KEY_BINDINGS,
+  findShortcutConflicts,
+  formatShortcut,
+  shortcutFromEvent,
+  type Command,
+  type CommandGroup,
+} from '@/lib/commands';
+import { PINCH_FINGERS } from '@/lib/gestureRecognition';
+import { BUILTIN_MOTION_GESTURES } from '@/lib/motionGestures';
+import type { ActionType, PinchBinding, PinchSlot, SettingsConfig } from '@/components/SettingsMenu';
+
+const GROUPS: CommandGroup[] = ['Edit', 'Select', 'Hold', 'Color', 'View', 'File'];
+const SLOT_LABELS: Record<PinchSlot, string> = { tap: 'tap', hold: 'hold', doubleTap: 'double tap' };
+
+interface GestureTrigger {
+  id: string;
+  label: string;
+  command: ActionType;
+  // Holds and poses last, so they can also drive continuous commands
+  sustained: boolean;
+  // The config change that binds this trigger to a command
+  bind: (command: ActionType) => [string, unknown];
+}
+
+function gestureTriggers(config: SettingsConfig, poses: string[], motions: string[]): GestureTrigger[] {
+  const triggers: GestureTrigger[] = [];
+  (['left', 'right'] as const).forEach((hand) => {
+    const handLabel = hand === 'left' ? 'View hand' : 'Build hand';
+    const bindings = config[hand] as Record<string, PinchBinding>;
+    PINCH_FINGERS.forEach((finger) => {
+      (Object.keys(SLOT_LABELS) as PinchSlot[]).forEach((slot) => {
+        triggers.push({
+          id: `pinch:${hand}:${finger}:${slot}`,
+          label: `${handLabel} ${finger} ${SLOT_LABELS[slot]}`,
+          command: bindings[finger][slot],
+          sustained: slot === 'hold',
+          bind: (command) => [hand, { ...bindings, [finger]: { ...bindings[finger], [slot]: command } }],
+        });
+      });
+    });
+    poses.forEach((pose) => {
+      triggers.push({
+        id: `pose:${hand}:${pose}`,
+        label: `${handLabel} pose ${POSE_LABELS[pose] ?? pose}`,
+        command: config.poseBindings[hand][pose] ?? 'none',
+        sustained: true,
+        bind: (command) => [
+          'poseBindings',
+          { ...config.poseBindings, [hand]: { ...config.poseBindings[hand], [pose]: command } },
+        ],
+      });
+    });
+  });
+  motions.forEach((name) => {
+    triggers.push({
+      id: `motion:${name}`,
+      label: `Motion ${GESTURE_LABELS[name] ?? name}`,
+      command: config.motionGestures.bindings[name] ?? 'none',
+      sustained: false,
+      bind: (command) => [
+        'motionGestures',
+        { ...config.motionGestures, bindings: { ...config.motionGestures.bindings, [name]: command } },
+      ],
+    });
+  });
+  return triggers;
+}
+
+interface BindingEditorProps {
+  commands: Command[];
+  config: SettingsConfig;
+  onConfigChange: (key: string, value: any) => void;
+}
+
+/**
+ * Lists every command with the shortcuts and gestures that trigger it.
+ * Taking a key or gesture that already belongs to another command asks
+ * before moving it, so one trigger never runs two commands.
+ */
+export function BindingEditor({ commands, config, onConfigChange }: BindingEditorProps) {
+  const { activeProfile } = useUserProfiles();
+  const [recordingFor, setRecordingFor] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ commandId: string; message: string; apply: () => void } | null>(null);
+
+  const poses = Array.from(new Set((activeProfile?.poseSamples ?? []).map((sample) => sample.label)));
+  const motions = Array.from(new Set([
+    ...BUILTIN_MOTION_GESTURES,
+    ...(activeProfile?.motionTemplates ?? []).map((template) => template.name),
+  ]));
+  const triggers = gestureTriggers(config, poses, motions);
+  const keyBindings = config.keyBindings;
+  const conflicts = findShortcutConflicts(keyBindings);
+  const labelOf = (id: string) => commands.find((command) => command.id === id)?.label ?? id;
+
+  const applyShortcut = (commandId: string, shortcut: string) => {
+    const next = Object.fromEntries(
+      Object.entries(keyBindings).map(([id, shortcuts]) => [id, shortcuts.filter((s) => s !== shortcut)])
+    );
+    next[commandId] = [...(next[commandId] ?? []), shortcut];
+    onConfigChange('keyBindings', next);
+  };
+
+  const assignShortcut = (commandId: string, shortcut: string) => {
+    const owner = Object.keys(keyBindings).find((id) => id !== commandId && keyBindings[id].includes(shortcut));
+    if (!owner) {
+      applyShortcut(commandId, shortcut);
+      return;
+    }
+    setPending({
+      commandId,
+      message: `${formatShortcut(shortcut)} is bound to ${labelOf(owner)}.`,
+      apply: () => applyShortcut(commandId, shortcut),
+    });
+  };
+
+  const assignTrigger = (commandId: string, trigger: GestureTrigger) => {
+    const apply = () => onConfigChange(...trigger.bind(commandId));
+    if (trigger.command === 'none' || trigger.command === commandId) {
+      apply();
+      return;
+    }
+    setPending({ commandId, message: `${trigger.label} is bound to ${labelOf(trigger.command)}.`, apply });
+  };
+
+  useEffect(() => {
+    if (!recordingFor) return;
+    // Captured ahead of the app's own shortcuts and the sheet's Escape handling
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        setRecordingFor(null);
+        return;
+      }
+      const shortcut = shortcutFromEvent(e);
+      if (!shortcut) return;
+      setRecordingFor(null);
+      assignShortcut(recordingFor, shortcut);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingFor, keyBindings]);
+
+  const chip = (key: string, label: string, onRemove: () => void) => (
+    <span key={key} className="inline-flex items-center gap-1 h-6 rounded-sm bg-muted px-1.5 text-[10px] text-muted-foreground">
+      {label}
+      <button onClick={onRemove} className="hover:text-destructive" title="Remove binding">
+        <X className="w-3 h-3" />
+      </button>
+    </span>
+  );
+
+  const renderCommand = (command: Command) => {
+    const Icon = command.icon;
+    const shortcuts = keyBindings[command.id] ?? [];
+    const bound = triggers.filter((trigger) => trigger.command === command.id);
+    const available = command.needsUserActivation
+      ? []
+      : triggers.filter((trigger) => trigger.command !== command.id && (command.run || trigger.sustained));
+
+    return (
+      <div key={command.id} className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icon className="w-3 h-3 text-muted-foreground shrink-0" />
+            <Label className="text-xs truncate">{command.label}</Label>
+          </div>
+          {command.run && (
+            <Button
+              onClick={() => setRecordingFor(recordingFor === command.id ? null : command.id)}
+              variant="outline"
+              size="sm"
+              className={`h-6 px-2 text-[10px] glass ${recordingFor === command.id ? 'text-primary border-primary/40' : ''}`}
+            >
+              {recordingFor === command.id ? 'Press keys...' : <><Plus className="w-3 h-3 mr-1" />Key</>}
+            </Button>
+          )}
+        </div>
+
+        {(shortcuts.length > 0 || bound.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {shortcuts.map((shortcut) =>
+              chip(shortcut, formatShortcut(shortcut), () =>
+                onConfigChange('keyBindings', { ...keyBindings, [command.id]: shortcuts.filter((s) => s !== shortcut) })
+              )
+            )}
+            {bound.map((trigger) => chip(trigger.id, trigger.label, () => onConfigChange(...trigger.bind('none'))))}
+          </div>
+        )}
+
+        {available.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(val) => {
+              const trigger = triggers.find((t) => t.id === val);
+              if (trigger) assignTrigger(command.id, trigger);
+            }}
+          >
+            <SelectTrigger className="h-7 text-[10px] glass px-2">
+              <SelectValue placeholder="Add gesture..." />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              {available.map((trigger) => (
+                <SelectItem key={trigger.id} value={trigger.id} className="text-xs">
+                  {trigger.label}
+                  {trigger.command !== 'none' && ` (${labelOf(trigger.command)})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {pending?.commandId === command.id && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-amber-400/30 p-2">
+            <span className="text-[10px] text-amber-400">{pending.message} Move it here?</span>
+            <div className="flex gap-1 shrink-0">
+              <Button
+                onClick={() => {
+                  pending.apply();
+                  setPending(null);
+                }}
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-[10px] glass"
+              >
+                Replace
+              </Button>
+              <Button onClick={() => setPending(null)} variant="ghost" size="sm" className="h-6 px-2 text-[10px]">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Keyboard className="w-4 h-4 text-muted-foreground" />
+          <Label>Bindings</Label>
+        </div>
+        <Button
+          onClick={() => onConfigChange('keyBindings', DEFAULT_KEY_BINDINGS)}
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-[10px]"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Default keys
+        </Button>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Add a key to record a shortcut, or pick a gesture to trigger a command. Held commands only take pinch holds and poses.
+      </p>
+
+      {conflicts.size > 0 && (
+        <div className="space-y-1 rounded-md border border-amber-400/30 p-2">
+          {Array.from(conflicts).map(([shortcut, ids]) => (
+            <p key={shortcut} className="flex items-center gap-1 text-[10px] text-amber-400">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              {formatShortcut(shortcut)} is bound to {ids.map(labelOf).join(' and ')}; only the first runs.
+            </p>
+          ))}
+        </div>
+      )}
+
+      {GROUPS.map((group) => {
+        const items = commands.filter((command) => command.group === group);
+        if (items.length === 0) return null;
+        return (
+          <div key={group} className="space-y-3">
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{group}</span>
+            <div className="grid gap-3 pl-2">{items.map(renderCommand)}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { Hand, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  PINCH_FINGERS,
+  type HandGestures,
+  type PinchCalibration,
+  type PinchFinger,
+} from '@/lib/gestureRecognition';
+
+const SAMPLES_PER_STEP = 30;
+// A pinch must close the gap to at most this fraction of the open distance
+const MAX_PINCH_RATIO = 0.6;
+
+type CalibrationStep = 'open' | PinchFinger | 'done';
+
+const STEPS: CalibrationStep[] = ['open', ...PINCH_FINGERS, 'done'];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gestures: HandGestures;
+  profileName: string;
+  onComplete: (calibration: PinchCalibration) => void;
+}
+
+/**
+ * Walks the user through holding an open hand and then pinching each finger,
+ * measuring the distances the pinch detector will compare against.
+ */
+export function CalibrationWizard({ open, onOpenChange, gestures, profileName, onComplete }: CalibrationWizardProps) {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [sampleCount, setSampleCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [openDistances, setOpenDistances] = useState<Partial<Record<PinchFinger, number>>>({});
+  const [pinchedDistances, setPinchedDistances] = useState<Partial<Record<PinchFinger, number>>>({});
+  const samplesRef = useRef<Record<PinchFinger, number[]>>({ index: [], middle: [], ring: [], pinky: [] });
+
+  const step = STEPS[stepIndex];
+  const hand = gestures.right ?? gestures.left;
+
+  const reset = () => {
+    setStepIndex(0);
+    setIsCapturing(false);
+    setSampleCount(0);
+    setError(null);
+    setOpenDistances({});
+    setPinchedDistances({});
+  };
+
+  useEffect(() => {
+    if (open) reset();
+  }, [open]);
+
+  const startCapture = () => {
+    samplesRef.current = { index: [], middle: [], ring: [], pinky: [] };
+    setSampleCount(0);
+    setError(null);
+    setIsCapturing(true);
+  };
+
+  useEffect(() => {
+    if (!isCapturing || !hand || step === 'done') return;
+
+    const samples = samplesRef.current;
+    const fingers = step === 'open' ? PINCH_FINGERS : [step];
+    fingers.forEach((finger) => samples[finger].push(hand.pinches[finger].distance));
+    const count = samples[fingers[0]].length;
+    setSampleCount(count);
+    if (count < SAMPLES_PER_STEP) return;
+
+    setIsCapturing(false);
+    if (step === 'open') {
+      const measured: Partial<Record<PinchFinger, number>> = {};
+      PINCH_FINGERS.forEach((finger) => {
+        measured[finger] = median(samples[finger]);
+      });
+      setOpenDistances(measured);
+      setStepIndex(stepIndex + 1);
+      return;
+    }
+
+    const pinched = median(samples[step]);
+    const openDistance = openDistances[step] ?? 0;
+    if (pinched > openDistance * MAX_PINCH_RATIO) {
+      setError(`That didn't look like a pinch. Touch your thumb firmly to your ${step} finger and try again.`);
+      return;
+    }
+    setPinchedDistances((prev) => ({ ...prev, [step]: pinched }));
+    setStepIndex(stepIndex + 1);
+  }, [gestures]);
+
+  const handleSave = () => {
+    const calibration = {} as PinchCalibration;
+    PINCH_FINGERS.forEach((finger) => {
+      calibration[finger] = { open: openDistances[finger] ?? 0, pinched: pinchedDistances[finger] ?? 0 };
+    });
+    onComplete(calibration);
+    onOpenChange(false);
+  };
+
+  const instruction = step === 'open'
+    ? 'Hold one hand up to the camera, fingers spread and relaxed, as you would between gestures.'
+    : step === 'done'
+      ? 'Calibration complete. These distances are measured in palm lengths, so they hold at any distance from the camera.'
+      : `Pinch your thumb against your ${step} fingertip and hold it.`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-strong border-primary/20">
+        <DialogHeader>
+          <DialogTitle className="text-primary font-display">Calibrate Pinches</DialogTitle>
+          <DialogDescription>
+            Step {Math.min(stepIndex + 1, STEPS.length - 1)} of {STEPS.length - 1} for {profileName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Hand className="w-8 h-8 text-primary shrink-0" />
+            <p className="text-sm">{instruction}</p>
+          </div>
+
+          {step !== 'done' && (
+            <>
+              {!hand && (
+                <p className="text-xs text-amber-400">No hand detected. Start tracking and bring your hand into view.</p>
+              )}
+              <Progress value={(sampleCount / SAMPLES_PER_STEP) * 100} />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </>
+          )}
+
+          {step === 'done' && (
+            <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-xs">
+              <span className="text-muted-foreground">Finger</span>
+              <span className="text-muted-foreground">Open</span>
+              <span className="text-muted-foreground">Pinched</span>
+              {PINCH_FINGERS.map((finger) => (
+                <div key={finger} className="contents">
+                  <span className="capitalize">{finger}</span>
+                  <span className="font-mono">{openDistances[finger]?.toFixed(2)}</span>
+                  <span className="font-mono">{pinchedDistances[finger]?.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={reset} disabled={stepIndex === 0 && !isCapturing}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Start Over
+          </Button>
+          {step === 'done' ? (
+            <Button onClick={handleSave}>Save Calibration</Button>
+          ) : (
+            <Button onClick={startCapture} disabled={!hand || isCapturing}>
+              {isCapturing ? 'Capturing...' : 'Capture'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { CloudUpload, CloudDownload, Cloud, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchProject,
+  useCreateProject,
+  useDeleteProject,
+  useProjects,
+  useUpdateProject,
+} from '@/hooks/use-projects';
+import { MAX_VOXELS, migrateProjectFile, type ProjectFile } from '@shared/project';
+
+export interface CloudProjectRef {
+  id: string;
+  name: string;
+}
+
+interface CloudProjectsProps {
+  currentProject: CloudProjectRef | null;
+  onCurrentProjectChange: (project: CloudProjectRef | null) => void;
+  onExportProject: (name: string) => ProjectFile | null;
+  // Called once the project is stored on the server
+  onProjectSaved: (file: ProjectFile) => void;
+  onImportProject: (file: ProjectFile) => void;
+}
+
+export function CloudProjects({ currentProject, onCurrentProjectChange, onExportProject, onProjectSaved, onImportProject }: CloudProjectsProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(currentProject?.name ?? '');
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const { data: projects, isLoading, error } = useProjects();
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const deleteProject = useDeleteProject();
+
+  const isSaving = createProject.isPending || updateProject.isPending;
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    const data = trimmed ? onExportProject(trimmed) : null;
+    if (!data) return;
+    if (data.voxels.length > MAX_VOXELS) {
+      toast({
+        title: 'Cloud save failed',
+        description: `Cloud projects hold up to ${MAX_VOXELS.toLocaleString()} voxels; this one has ${data.voxels.length.toLocaleString()}. Save it as a file instead.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      // Saving under the open project's name updates it, a new name creates a copy
+      const project = currentProject && currentProject.name === trimmed
+        ? await updateProject.mutateAsync({ id: currentProject.id, name: trimmed, data })
+        : await createProject.mutateAsync({ name: trimmed, data });
+      onCurrentProjectChange({ id: project.id, name: project.name });
+      onProjectSaved(data);
+      toast({ title: 'Saved to cloud', description: project.name });
+    } catch (err: any) {
+      toast({ title: 'Cloud save failed', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    try {
+      const project = await fetchProject(id);
+      // Rows saved by older clients may still hold an older format version
+      onImportProject(migrateProjectFile(project.data));
+      onCurrentProjectChange({ id: project.id, name: project.name });
+      setName(project.name);
+      toast({ title: 'Opened from cloud', description: project.name });
+    } catch (err: any) {
+      toast({ title: 'Could not open project', description: err.message, variant: 'destructive' });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteProject.mutateAsync(id);
+      if (currentProject?.id === id) onCurrentProjectChange(null);
+    } catch (err: any) {
+      toast({ title: 'Delete failed', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-primary/80">
+        <Cloud className="w-4 h-4" />
+        <h3 className="text-sm font-semibold uppercase tracking-wider">Cloud Projects</h3>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Project Name</Label>
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="My voxel build"
+            className="h-8 text-xs glass"
+            maxLength={120}
+          />
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || isSaving}
+            variant="outline"
+            size="sm"
+            className="glass border-primary/20 hover:bg-primary/10 hover:border-primary/40 h-8"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CloudUpload className="w-4 h-4 mr-2" />}
+            Save to cloud
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Open from cloud</Label>
+        {isLoading && <p className="text-xs text-muted-foreground">Loading projects...</p>}
+        {error && <p className="text-xs text-destructive">Cloud storage is unavailable</p>}
+        {projects && projects.length === 0 && (
+          <p className="text-xs text-muted-foreground">No saved projects yet</p>
+        )}
+        <div className="grid gap-1">
+          {projects?.map((project) => (
+            <div
+              key={project.id}
+              className={`flex items-center justify-between gap-2 rounded-md px-2 py-1 border ${
+                currentProject?.id === project.id ? 'border-primary/40 bg-primary/5' : 'border-transparent'
+              }`}
+            >
+              <div className="min-w-0">
+                <p className="text-xs truncate">{project.name}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {new Date(project.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  onClick={() => handleOpen(project.id)}
+                  disabled={openingId !== null}
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-primary"
+                  title="Open"
+                >
+                  {openingId === project.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudDownload className="w-3 h-3" />}
+                </Button>
+                <Button
+                  onClick={() => handleDelete(project.id)}
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
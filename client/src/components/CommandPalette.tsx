@@ -0,0 +1,64 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { formatShortcut, type Command, type CommandGroup as Group, type CommandRegistry } from '@/lib/commands';
+
+const GROUPS: Group[] = ['Edit', 'Select', 'Color', 'View', 'File'];
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  registry: CommandRegistry;
+  commands: Command[];
+  keyBindings: Record<string, string[]>;
+}
+
+/**
+ * Searchable list of every one-shot command. Continuous commands are left
+ * out since there is nothing to hold from a menu.
+ */
+export function CommandPalette({ open, onOpenChange, registry, commands, keyBindings }: CommandPaletteProps) {
+  const runCommand = (id: string) => {
+    onOpenChange(false);
+    registry.execute(id);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command..." />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+        {GROUPS.map((group) => {
+          const items = commands.filter((command) => command.group === group && command.run);
+          if (items.length === 0) return null;
+          return (
+            <CommandGroup key={group} heading={group}>
+              {items.map((command) => {
+                const Icon = command.icon;
+                const shortcut = keyBindings[command.id]?.[0];
+                return (
+                  <CommandItem
+                    key={command.id}
+                    value={`${command.label} ${command.id}`}
+                    disabled={!registry.isEnabled(command.id)}
+                    onSelect={() => runCommand(command.id)}
+                  >
+                    <Icon className="mr-2 h-4 w-4" />
+                    <span>{command.label}</span>
+                    {shortcut && <CommandShortcut>{formatShortcut(shortcut)}</CommandShortcut>}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
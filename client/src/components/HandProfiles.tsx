@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { UserRound, Crosshair, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalibrationWizard } from '@/components/CalibrationWizard';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import type { HandGestures } from '@/lib/gestureRecognition';
+
+const NO_PROFILE = 'none';
+
+interface HandProfilesProps {
+  gestures: HandGestures;
+}
+
+export function HandProfiles({ gestures }: HandProfilesProps) {
+  const { store, profiles, activeProfile } = useUserProfiles();
+  const [newName, setNewName] = useState('');
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    store.createProfile(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <UserRound className="w-4 h-4 text-muted-foreground" />
+        <Label>Hand Profile</Label>
+      </div>
+
+      <div className="grid gap-3 pl-2">
+        <div className="flex items-center gap-2">
+          <Select
+            value={activeProfile?.id ?? NO_PROFILE}
+            onValueChange={(val) => store.setActiveProfile(val === NO_PROFILE ? null : val)}
+          >
+            <SelectTrigger className="h-8 text-xs glass">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              <SelectItem value={NO_PROFILE} className="text-xs">Default (uncalibrated)</SelectItem>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id} className="text-xs">{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {activeProfile && (
+            <Button
+              onClick={() => store.deleteProfile(activeProfile.id)}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive"
+              title="Delete profile"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New profile name"
+            className="h-8 text-xs glass"
+            maxLength={60}
+          />
+          <Button onClick={handleCreate} disabled={!newName.trim()} variant="outline" size="icon" className="h-8 w-8 shrink-0 glass" title="Add profile">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {activeProfile && (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[10px] text-muted-foreground">
+              {activeProfile.calibration
+                ? `Calibrated ${new Date(activeProfile.updatedAt).toLocaleDateString()}`
+                : 'Not calibrated, using default pinch distances'}
+            </p>
+            <Button
+              onClick={() => setIsCalibrating(true)}
+              variant="outline"
+              size="sm"
+              className="h-8 glass border-primary/20 hover:bg-primary/10 hover:border-primary/40"
+            >
+              <Crosshair className="w-3 h-3 mr-2" />
+              Calibrate
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {activeProfile && (
+        <CalibrationWizard
+          open={isCalibrating}
+          onOpenChange={setIsCalibrating}
+          gestures={gestures}
+          profileName={activeProfile.name}
+          onComplete={(calibration) => store.setCalibration(activeProfile.id, calibration)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity, Circle, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import type { HandGestures } from '@/lib/gestureRecognition';
+import { BUILTIN_MOTION_GESTURES, StrokeSegmenter, normalizeStroke } from '@/lib/motionGestures';
+import type { ActionType, MotionGestureConfig } from '@/components/SettingsMenu';
+
+export const GESTURE_LABELS: Record<string, string> = {
+  swipeLeft: 'Swipe Left',
+  swipeRight: 'Swipe Right',
+  swipeUp: 'Swipe Up',
+  swipeDown: 'Swipe Down',
+  circle: 'Circle',
+  shake: 'Shake',
+};
+
+interface MotionGesturesProps {
+  gestures: HandGestures;
+  handsSwapped: boolean;
+  config: MotionGestureConfig;
+  actions: { value: ActionType; label: string }[];
+  onChange: (config: MotionGestureConfig) => void;
+}
+
+export function MotionGestures({ gestures, handsSwapped, config, actions, onChange }: MotionGesturesProps) {
+  const { store, activeProfile } = useUserProfiles();
+  const [newName, setNewName] = useState('');
+  const [recordingName, setRecordingName] = useState<string | null>(null);
+  const segmenterRef = useRef(new StrokeSegmenter());
+
+  const templates = activeProfile?.motionTemplates ?? [];
+  const customNames = Array.from(new Set(templates.map((t) => t.name)))
+    .filter((name) => !(BUILTIN_MOTION_GESTURES as readonly string[]).includes(name));
+  const names = [...BUILTIN_MOTION_GESTURES, ...customNames];
+
+  // The configured logical hand, mapped to the physical hand it currently is
+  const hand = (config.hand === 'left') !== handsSwapped ? gestures.left : gestures.right;
+
+  useEffect(() => {
+    if (!recordingName || !activeProfile) return;
+    const stroke = segmenterRef.current.update(hand?.palmPosition ?? null, gestures.timestamp);
+    if (!stroke) return;
+    store.addMotionTemplate(activeProfile.id, { name: recordingName, points: normalizeStroke(stroke) });
+    setRecordingName(null);
+  }, [gestures]);
+
+  const startRecording = (name: string) => {
+    segmenterRef.current.reset();
+    setRecordingName(name);
+  };
+
+  const handleAddGesture = () => {
+    const name = newName.trim().slice(0, 30);
+    if (!name) return;
+    setNewName('');
+    startRecording(name);
+  };
+
+  const updateBinding = (name: string, action: ActionType) => {
+    onChange({ ...config, bindings: { ...config.bindings, [name]: action } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity className="w-4 h-4 text-muted-foreground" />
+          <Label>Motion Gestures</Label>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(val) => onChange({ ...config, enabled: val })}
+        />
+      </div>
+
+      {config.enabled && (
+        <div className="grid gap-3 pl-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">Recognize with</span>
+            <Select
+              value={config.hand}
+              onValueChange={(val) => onChange({ ...config, hand: val as MotionGestureConfig['hand'] })}
+            >
+              <SelectTrigger className="h-8 w-32 text-xs glass">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="glass-strong">
+                <SelectItem value="left" className="text-xs">View hand</SelectItem>
+                <SelectItem value="right" className="text-xs">Build hand</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Move an open hand quickly, then hold still. Motion made while pinching is ignored.
+          </p>
+
+          {names.map((name) => {
+            const recorded = templates.filter((t) => t.name === name).length;
+            const isBuiltin = (BUILTIN_MOTION_GESTURES as readonly string[]).includes(name);
+            return (
+              <div key={name} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-xs">{GESTURE_LABELS[name] ?? name}</Label>
+                  <span className="text-[10px] text-muted-foreground">
+                    {recorded > 0 ? `${recorded} recorded` : isBuiltin ? 'Built in' : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={config.bindings[name] ?? 'none'}
+                    onValueChange={(val) => updateBinding(name, val as ActionType)}
+                  >
+                    <SelectTrigger className="h-8 text-xs glass">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass-strong">
+                      {actions.map(action => (
+                        <SelectItem key={action.value} value={action.value} className="text-xs">{action.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => (recordingName === name ? setRecordingName(null) : startRecording(name))}
+                    disabled={!activeProfile}
+                    variant="outline"
+                    size="icon"
+                    className={`h-8 w-8 shrink-0 glass ${recordingName === name ? 'text-destructive border-destructive/40' : ''}`}
+                    title={recordingName === name ? 'Cancel recording' : 'Record a sample'}
+                  >
+                    {recordingName === name ? <Square className="w-3 h-3 fill-current" /> : <Circle className="w-3 h-3" />}
+                  </Button>
+                  {recorded > 0 && activeProfile && (
+                    <Button
+                      onClick={() => store.removeMotionTemplates(activeProfile.id, name)}
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0 text-destructive"
+                      title="Forget recorded samples"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {recordingName && !names.includes(recordingName) && (
+            <p className="text-xs text-primary">Recording "{recordingName}"...</p>
+          )}
+          {recordingName && !hand && (
+            <p className="text-xs text-amber-400">No hand detected. Start tracking and bring your hand into view.</p>
+          )}
+
+          {activeProfile ? (
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddGesture()}
+                placeholder="New gesture name"
+                className="h-8 text-xs glass"
+                maxLength={30}
+              />
+              <Button onClick={handleAddGesture} disabled={!newName.trim()} variant="outline" size="icon" className="h-8 w-8 shrink-0 glass" title="Record new gesture">
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-[10px] text-muted-foreground">Select a hand profile to record your own gestures.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, Grab, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import type { HandGestures } from '@/lib/gestureRecognition';
+import { PoseClassifier, SUGGESTED_POSES } from '@/lib/poseClassifier';
+
+const SAMPLES_PER_CAPTURE = 30;
+
+export const POSE_LABELS: Record<string, string> = {
+  fist: 'Fist',
+  openPalm: 'Open Palm',
+  peace: 'Peace Sign',
+  point: 'Pointing',
+};
+
+interface PoseTrainerProps {
+  gestures: HandGestures;
+}
+
+/**
+ * Captures labelled hand poses into the active profile. Samples are
+ * normalized for handedness, so either hand can be used to train.
+ */
+export function PoseTrainer({ gestures }: PoseTrainerProps) {
+  const { store, activeProfile } = useUserProfiles();
+  const [newLabel, setNewLabel] = useState('');
+  const [capturing, setCapturing] = useState<string | null>(null);
+  const [sampleCount, setSampleCount] = useState(0);
+  const samplesRef = useRef<number[][]>([]);
+
+  const samples = activeProfile?.poseSamples ?? [];
+  const labels = Array.from(new Set([...SUGGESTED_POSES, ...samples.map((s) => s.label)]));
+  const hand = gestures.right ?? gestures.left;
+
+  const classifier = useMemo(() => {
+    const instance = new PoseClassifier();
+    instance.setSamples(samples);
+    return instance;
+  }, [samples]);
+  const detected = hand && !capturing ? classifier.classify(hand.poseFeatures) : null;
+
+  useEffect(() => {
+    if (!capturing || !hand || !activeProfile) return;
+    // Rounded to keep the stored profile compact
+    samplesRef.current.push(hand.poseFeatures.map((v) => Math.round(v * 1000) / 1000));
+    setSampleCount(samplesRef.current.length);
+    if (samplesRef.current.length < SAMPLES_PER_CAPTURE) return;
+
+    store.addPoseSamples(activeProfile.id, capturing, samplesRef.current);
+    setCapturing(null);
+  }, [gestures]);
+
+  const startCapture = (label: string) => {
+    samplesRef.current = [];
+    setSampleCount(0);
+    setCapturing(label);
+  };
+
+  const handleAddPose = () => {
+    const label = newLabel.trim().slice(0, 30);
+    if (!label) return;
+    setNewLabel('');
+    startCapture(label);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Grab className="w-4 h-4 text-muted-foreground" />
+        <Label>Pose Trainer</Label>
+      </div>
+
+      {!activeProfile ? (
+        <p className="text-[10px] text-muted-foreground pl-2">Select a hand profile to train poses.</p>
+      ) : (
+        <div className="grid gap-3 pl-2">
+          <p className="text-[10px] text-muted-foreground">
+            Hold a pose in view and press capture. Train a few poses, then bind them under each hand below.
+          </p>
+
+          {labels.map((label) => {
+            const count = samples.filter((s) => s.label === label).length;
+            return (
+              <div key={label} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <Label className="text-xs">{POSE_LABELS[label] ?? label}</Label>
+                  <p className="text-[10px] text-muted-foreground">
+                    {count > 0 ? `${count} samples` : 'Not trained'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    onClick={() => startCapture(label)}
+                    disabled={!hand || capturing !== null}
+                    variant="outline"
+                    size="sm"
+                    className="h-8 glass"
+                  >
+                    <Camera className="w-3 h-3 mr-2" />
+                    {capturing === label ? 'Capturing...' : 'Capture'}
+                  </Button>
+                  {count > 0 && (
+                    <Button
+                      onClick={() => store.removePoseSamples(activeProfile.id, label)}
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      title="Forget samples"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {capturing && <Progress value={(sampleCount / SAMPLES_PER_CAPTURE) * 100} />}
+
+          <div className="flex gap-2">
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddPose()}
+              placeholder="New pose name"
+              className="h-8 text-xs glass"
+              maxLength={30}
+            />
+            <Button onClick={handleAddPose} disabled={!newLabel.trim() || !hand || capturing !== null} variant="outline" size="icon" className="h-8 w-8 shrink-0 glass" title="Capture new pose">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            {!hand
+              ? 'No hand detected.'
+              : detected
+                ? `Detected: ${POSE_LABELS[detected.label] ?? detected.label} (${Math.round(detected.confidence * 100)}%)`
+                : 'Detected: no trained pose'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,17 @@ import {
   RotateCw,
   ZoomIn,
   Plus,
-  Minus
+  Minus,
+  Palette,
+  Trash2,
+  Circle,
+  Square,
+  Play,
+  Film,
+  Waves,
+  Move,
+  Crosshair,
+  Keyboard
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -32,60 +42,223 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from '@/components/ui/separator';
+import { CloudProjects, CloudProjectRef } from '@/components/CloudProjects';
+import { HandProfiles } from '@/components/HandProfiles';
+import { MotionGestures } from '@/components/MotionGestures';
+import { PoseTrainer, POSE_LABELS } from '@/components/PoseTrainer';
+import { BindingEditor } from '@/components/BindingEditor';
+import { SettingsProfiles } from '@/components/SettingsProfiles';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import type { ProjectFile } from '@shared/project';
+import type { SmoothingConfig } from '@/lib/oneEuroFilter';
+import type { HandGestures } from '@/lib/gestureRecognition';
+import type { Command } from '@/lib/commands';
+import type { PointingMode, RotationMode } from '@/lib/voxelScene';
 
-export type ActionType = 'none' | 'rotate' | 'zoomIn' | 'zoomOut' | 'lock' | 'place' | 'delete';
+// A command id from the registry (lib/commands.ts), or 'none'
+export type ActionType = string;
+
+export type PinchSlot = 'tap' | 'hold' | 'doubleTap';
+
+export type PinchBinding = Record<PinchSlot, ActionType>;
+
+export interface MotionGestureConfig {
+  enabled: boolean;
+  // Logical hand, so 'left' follows the view hand when hands are swapped
+  hand: 'left' | 'right';
+  // Keyed by gesture name, including the user's own recorded gestures
+  bindings: Record<string, ActionType>;
+}
+
+export type ProjectFileFormat = 'json' | 'vox';
 
 interface SettingsMenuProps {
   onOpen: () => void;
   onSave: () => void;
   onReset: () => void;
   onResetConfig?: () => void;
+  fileFormat: ProjectFileFormat;
+  onFileFormatChange: (format: ProjectFileFormat) => void;
+  cloudProject: CloudProjectRef | null;
+  onCloudProjectChange: (project: CloudProjectRef | null) => void;
+  onExportProject: (name: string) => ProjectFile | null;
+  onProjectSaved: (file: ProjectFile) => void;
+  onImportProject: (file: ProjectFile) => void;
+  isRecording: boolean;
+  isPlayingRecording: boolean;
+  onToggleRecording: () => void;
+  onPlayRecording: () => void;
+  onStopPlayback: () => void;
+  palette: string[];
+  activeColor: number;
+  onActiveColorChange: (index: number) => void;
+  onPaletteColorChange: (index: number, color: string) => void;
+  onAddPaletteColor: () => void;
+  onRemovePaletteColor: (index: number) => void;
+  gestures: HandGestures;
+  commands: Command[];
   config: {
     leftHandEnabled: boolean;
     rightHandEnabled: boolean;
     showHandOverlay: boolean;
     sensitivity: number;
+    rotationMode: RotationMode;
+    pointingMode: PointingMode;
+    twoHandGestures: boolean;
     handsSwapped: boolean;
+    smoothing: SmoothingConfig;
+    motionGestures: MotionGestureConfig;
+    // Actions for trained poses, by pose label
+    poseBindings: {
+      left: Record<string, ActionType>;
+      right: Record<string, ActionType>;
+    };
     left: {
-      index: ActionType;
-      middle: ActionType;
-      ring: ActionType;
-      pinky: ActionType;
+      index: PinchBinding;
+      middle: PinchBinding;
+      ring: PinchBinding;
+      pinky: PinchBinding;
     };
     right: {
-      index: ActionType;
-      middle: ActionType;
+      index: PinchBinding;
+      middle: PinchBinding;
+      ring: PinchBinding;
+      pinky: PinchBinding;
     };
+    // Keyboard shortcuts by command id
+    keyBindings: Record<string, string[]>;
   };
   onConfigChange: (key: string, value: any) => void;
 }
 
-export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, onConfigChange }: SettingsMenuProps) {
+export type SettingsConfig = SettingsMenuProps['config'];
+
+export function SettingsMenu({
+  onOpen,
+  onSave,
+  onReset,
+  onResetConfig,
+  fileFormat,
+  onFileFormatChange,
+  cloudProject,
+  onCloudProjectChange,
+  onExportProject,
+  onProjectSaved,
+  onImportProject,
+  isRecording,
+  isPlayingRecording,
+  onToggleRecording,
+  onPlayRecording,
+  onStopPlayback,
+  palette,
+  activeColor,
+  onActiveColorChange,
+  onPaletteColorChange,
+  onAddPaletteColor,
+  onRemovePaletteColor,
+  gestures,
+  commands,
+  config,
+  onConfigChange
+}: SettingsMenuProps) {
   const [activeTab, setActiveTab] = useState('file');
+  const { activeProfile } = useUserProfiles();
+  const trainedPoses = Array.from(new Set((activeProfile?.poseSamples ?? []).map((sample) => sample.label)));
 
   const menuItems = [
     { id: 'file', label: 'File', icon: FileUp },
+    { id: 'palette', label: 'Palette', icon: Palette },
     { id: 'config', label: 'Configurations', icon: Settings2 },
+    { id: 'bindings', label: 'Bindings', icon: Keyboard },
   ];
 
-  const leftActions: { value: ActionType; label: string }[] = [
+  // Every command can be bound to any finger of either hand
+  const handActions: { value: ActionType; label: string }[] = [
     { value: 'none', label: 'None' },
-    { value: 'rotate', label: 'Rotate' },
-    { value: 'zoomIn', label: 'Zoom In' },
-    { value: 'zoomOut', label: 'Zoom Out' },
-    { value: 'lock', label: 'Lock View' },
+    ...commands
+      .filter((command) => !command.needsUserActivation)
+      .map((command) => ({ value: command.id, label: command.label })),
   ];
+  const continuous = new Set(commands.filter((command) => !command.run).map((command) => command.id));
 
-  const rightActions: { value: ActionType; label: string }[] = [
-    { value: 'none', label: 'None' },
-    { value: 'place', label: 'Place Cube' },
-    { value: 'delete', label: 'Delete Cube' },
+  // Motion gestures fire once, so only one-shot actions apply
+  const motionActions = handActions.filter((action) => !continuous.has(action.value));
+
+  const updateSmoothing = (update: Partial<SmoothingConfig>) => {
+    onConfigChange('smoothing', { ...config.smoothing, ...update });
+  };
+
+  const pinchSlots: { value: PinchSlot; label: string }[] = [
+    { value: 'tap', label: 'Tap' },
+    { value: 'hold', label: 'Hold' },
+    { value: 'doubleTap', label: 'Double' },
   ];
 
-  const updateMapping = (hand: 'left' | 'right', finger: string, action: ActionType) => {
-    onConfigChange(hand, { ...config[hand], [finger]: action });
+  // Continuous actions only make sense while a pinch is held
+  const actionsForSlot = (actions: { value: ActionType; label: string }[], slot: PinchSlot) =>
+    slot === 'hold' ? actions : actions.filter((action) => !continuous.has(action.value));
+
+  const updateMapping = (hand: 'left' | 'right', finger: string, slot: PinchSlot, action: ActionType) => {
+    const bindings = config[hand] as Record<string, PinchBinding>;
+    onConfigChange(hand, { ...bindings, [finger]: { ...bindings[finger], [slot]: action } });
   };
 
+  const renderPinchBindings = (hand: 'left' | 'right', fingers: string[], actions: { value: ActionType; label: string }[]) =>
+    fingers.map((finger) => {
+      const binding = (config[hand] as Record<string, PinchBinding>)[finger];
+      return (
+        <div key={finger} className="space-y-1.5">
+          <Label className="text-xs capitalize">Thumb + {finger}</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {pinchSlots.map((slot) => (
+              <div key={slot.value} className="space-y-1">
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{slot.label}</span>
+                <Select
+                  value={binding[slot.value]}
+                  onValueChange={(val) => updateMapping(hand, finger, slot.value, val as ActionType)}
+                >
+                  <SelectTrigger className="h-8 text-xs glass px-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-strong">
+                    {actionsForSlot(actions, slot.value).map(action => (
+                      <SelectItem key={action.value} value={action.value} className="text-xs">{action.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    });
+
+  // Continuous actions run for as long as the pose is held
+  const renderPoseBindings = (hand: 'left' | 'right', actions: { value: ActionType; label: string }[]) =>
+    trainedPoses.map((pose) => (
+      <div key={pose} className="flex items-center justify-between gap-2">
+        <Label className="text-xs">Pose: {POSE_LABELS[pose] ?? pose}</Label>
+        <Select
+          value={config.poseBindings[hand][pose] ?? 'none'}
+          onValueChange={(val) =>
+            onConfigChange('poseBindings', {
+              ...config.poseBindings,
+              [hand]: { ...config.poseBindings[hand], [pose]: val as ActionType },
+            })
+          }
+        >
+          <SelectTrigger className="h-8 w-36 text-xs glass px-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="glass-strong">
+            {actions.map(action => (
+              <SelectItem key={action.value} value={action.value} className="text-xs">{action.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    ));
+
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -134,6 +307,18 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                     <FileUp className="w-4 h-4" />
                     <h3 className="text-sm font-semibold uppercase tracking-wider">File Operations</h3>
                   </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="text-xs">File Type</Label>
+                    <Select value={fileFormat} onValueChange={(val) => onFileFormatChange(val as ProjectFileFormat)}>
+                      <SelectTrigger className="h-8 text-xs glass w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="glass-strong">
+                        <SelectItem value="json" className="text-xs">VoxelCraft Project (.json)</SelectItem>
+                        <SelectItem value="vox" className="text-xs">MagicaVoxel (.vox)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="grid grid-cols-1 gap-2">
                     <Button 
                       onClick={onOpen} 
@@ -171,6 +356,113 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                     )}
                   </div>
                 </div>
+
+                <Separator className="bg-primary/10" />
+
+                <CloudProjects
+                  currentProject={cloudProject}
+                  onCurrentProjectChange={onCloudProjectChange}
+                  onExportProject={onExportProject}
+                  onProjectSaved={onProjectSaved}
+                  onImportProject={onImportProject}
+                />
+
+                <Separator className="bg-primary/10" />
+
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2 text-primary/80">
+                    <Film className="w-4 h-4" />
+                    <h3 className="text-sm font-semibold uppercase tracking-wider">Hand Recordings</h3>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Capture tracked hand landmarks to a file and replay them through the gesture controls without a camera.
+                  </p>
+                  <div className="grid grid-cols-1 gap-2">
+                    <Button
+                      onClick={onToggleRecording}
+                      disabled={isPlayingRecording}
+                      variant="outline"
+                      className={`justify-start glass transition-all active:scale-[0.98] ${
+                        isRecording
+                          ? 'border-destructive/40 text-destructive hover:text-destructive hover:bg-destructive/10'
+                          : 'border-primary/20 hover:bg-primary/10 hover:border-primary/40'
+                      }`}
+                    >
+                      {isRecording ? <Square className="w-4 h-4 mr-2" /> : <Circle className="w-4 h-4 mr-2" />}
+                      {isRecording ? 'Stop & Save Recording' : 'Record Hands'}
+                    </Button>
+                    <Button
+                      onClick={isPlayingRecording ? onStopPlayback : onPlayRecording}
+                      disabled={isRecording}
+                      variant="outline"
+                      className="justify-start glass border-primary/20 hover:bg-primary/10 hover:border-primary/40 transition-all active:scale-[0.98]"
+                    >
+                      {isPlayingRecording ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                      {isPlayingRecording ? 'Stop Playback' : 'Play Recording...'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'palette' && (
+              <div className="space-y-6 animate-in fade-in slide-in-from-right-2">
+                <div className="space-y-4">
+                  <div className="flex items-center gap-2 text-primary/80">
+                    <Palette className="w-4 h-4" />
+                    <h3 className="text-sm font-semibold uppercase tracking-wider">Project Palette</h3>
+                  </div>
+                  <p className="text-[10px] text-muted-foreground uppercase tracking-wider">
+                    Select the build color, or edit a swatch to recolor every voxel using it
+                  </p>
+                  <div className="grid grid-cols-6 gap-2">
+                    {palette.map((color, index) => (
+                      <button
+                        key={index}
+                        onClick={() => onActiveColorChange(index)}
+                        className={`h-9 rounded-md border-2 transition-all ${
+                          index === activeColor ? 'border-primary scale-110' : 'border-transparent hover:border-primary/40'
+                        }`}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+
+                  <Separator className="bg-primary/10" />
+
+                  <div className="flex items-center justify-between gap-4">
+                    <Label className="text-xs">Active Color</Label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-primary">{palette[activeColor]}</span>
+                      <input
+                        type="color"
+                        value={palette[activeColor]}
+                        onChange={(e) => onPaletteColorChange(activeColor, e.target.value)}
+                        className="h-8 w-10 cursor-pointer rounded border border-primary/20 bg-transparent"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      onClick={onAddPaletteColor}
+                      variant="outline"
+                      className="justify-start glass border-primary/20 hover:bg-primary/10 hover:border-primary/40 transition-all active:scale-[0.98]"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Color
+                    </Button>
+                    <Button
+                      onClick={() => onRemovePaletteColor(activeColor)}
+                      disabled={palette.length <= 1}
+                      variant="outline"
+                      className="justify-start glass border-destructive/20 text-destructive hover:text-destructive hover:bg-destructive/10 hover:border-destructive/40 transition-all active:scale-[0.98]"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                </div>
               </div>
             )}
 
@@ -183,6 +475,10 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                   </div>
                   
                   <div className="space-y-6">
+                    <SettingsProfiles config={config} />
+
+                    <Separator className="bg-primary/10" />
+
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
@@ -201,6 +497,68 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                       />
                     </div>
 
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <RotateCw className="w-4 h-4 text-muted-foreground" />
+                        <Label>Rotation Style</Label>
+                      </div>
+                      <Select
+                        value={config.rotationMode}
+                        onValueChange={(val) => onConfigChange('rotationMode', val)}
+                      >
+                        <SelectTrigger className="h-8 text-xs glass">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="glass-strong">
+                          <SelectItem value="translate" className="text-xs">Translate (move palm)</SelectItem>
+                          <SelectItem value="grab" className="text-xs">Grab (turn palm)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-[10px] text-muted-foreground">
+                        Grab turns the model with your hand while the rotate pinch is held, including roll.
+                      </p>
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Crosshair className="w-4 h-4 text-muted-foreground" />
+                        <Label>Build Hand Pointing</Label>
+                      </div>
+                      <Select
+                        value={config.pointingMode}
+                        onValueChange={(val) => onConfigChange('pointingMode', val)}
+                      >
+                        <SelectTrigger className="h-8 text-xs glass">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="glass-strong">
+                          <SelectItem value="fingertip" className="text-xs">Fingertip</SelectItem>
+                          <SelectItem value="ray" className="text-xs">Finger ray (aim with finger)</SelectItem>
+                          <SelectItem value="depth" className="text-xs">Depth (reach in by moving closer)</SelectItem>
+                          <SelectItem value="palm" className="text-xs">Palm (classic)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-[10px] text-muted-foreground">
+                        Fingertip targets the face right under your index finger; finger ray also follows the way it points. Depth moves a 3D cursor into the model as your hand nears the camera.
+                      </p>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <Move className="w-4 h-4 text-muted-foreground" />
+                          <Label>Two-Hand Zoom & Rotate</Label>
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">
+                          Index-pinch with both hands, then spread to zoom or turn to rotate.
+                        </p>
+                      </div>
+                      <Switch
+                        checked={config.twoHandGestures}
+                        onCheckedChange={(val) => onConfigChange('twoHandGestures', val)}
+                      />
+                    </div>
+
                     <Separator className="bg-primary/10" />
 
                     <div className="flex items-center justify-between p-3 glass-strong rounded-lg border border-primary/20">
@@ -221,6 +579,74 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
 
                     <Separator className="bg-primary/10" />
 
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Waves className="w-4 h-4 text-muted-foreground" />
+                          <Label>Motion Smoothing</Label>
+                        </div>
+                        <Switch
+                          checked={config.smoothing.enabled}
+                          onCheckedChange={(val) => updateSmoothing({ enabled: val })}
+                        />
+                      </div>
+
+                      {config.smoothing.enabled && (
+                        <div className="grid gap-4 pl-2">
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-xs">Steadiness (min cutoff)</Label>
+                              <span className="text-xs font-mono text-primary">{config.smoothing.minCutoff.toFixed(2)} Hz</span>
+                            </div>
+                            <Slider
+                              value={[config.smoothing.minCutoff]}
+                              onValueChange={(val) => updateSmoothing({ minCutoff: val[0] })}
+                              min={0.1}
+                              max={5}
+                              step={0.05}
+                              className="w-full"
+                            />
+                            <p className="text-[10px] text-muted-foreground">Lower values hold the cursor still but add lag at rest.</p>
+                          </div>
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-xs">Responsiveness (beta)</Label>
+                              <span className="text-xs font-mono text-primary">{config.smoothing.beta.toFixed(1)}</span>
+                            </div>
+                            <Slider
+                              value={[config.smoothing.beta]}
+                              onValueChange={(val) => updateSmoothing({ beta: val[0] })}
+                              min={0}
+                              max={50}
+                              step={0.5}
+                              className="w-full"
+                            />
+                            <p className="text-[10px] text-muted-foreground">Higher values reduce lag during fast movements.</p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    <Separator className="bg-primary/10" />
+
+                    <HandProfiles gestures={gestures} />
+
+                    <Separator className="bg-primary/10" />
+
+                    <MotionGestures
+                      gestures={gestures}
+                      handsSwapped={config.handsSwapped}
+                      config={config.motionGestures}
+                      actions={motionActions}
+                      onChange={(val) => onConfigChange('motionGestures', val)}
+                    />
+
+                    <Separator className="bg-primary/10" />
+
+                    <PoseTrainer gestures={gestures} />
+
+                    <Separator className="bg-primary/10" />
+
                     {/* Left Hand Section */}
                     <div className="space-y-4">
                       <div className="flex items-center justify-between">
@@ -236,24 +662,8 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                       
                       {config.leftHandEnabled && (
                         <div className="grid gap-3 pl-2">
-                          {['index', 'middle', 'ring', 'pinky'].map((finger) => (
-                            <div key={finger} className="flex items-center justify-between gap-4">
-                              <Label className="text-xs capitalize w-24">Thumb + {finger}</Label>
-                              <Select 
-                                value={config.left[finger as keyof typeof config.left]} 
-                                onValueChange={(val) => updateMapping('left', finger, val as ActionType)}
-                              >
-                                <SelectTrigger className="h-8 text-xs glass">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent className="glass-strong">
-                                  {leftActions.map(action => (
-                                    <SelectItem key={action.value} value={action.value} className="text-xs">{action.label}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            </div>
-                          ))}
+                          {renderPinchBindings('left', ['index', 'middle', 'ring', 'pinky'], handActions)}
+                          {renderPoseBindings('left', handActions)}
                         </div>
                       )}
                     </div>
@@ -275,24 +685,8 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
 
                       {config.rightHandEnabled && (
                         <div className="grid gap-3 pl-2">
-                          {['index', 'middle'].map((finger) => (
-                            <div key={finger} className="flex items-center justify-between gap-4">
-                              <Label className="text-xs capitalize w-24">Thumb + {finger}</Label>
-                              <Select 
-                                value={config.right[finger as keyof typeof config.right]} 
-                                onValueChange={(val) => updateMapping('right', finger, val as ActionType)}
-                              >
-                                <SelectTrigger className="h-8 text-xs glass">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent className="glass-strong">
-                                  {rightActions.map(action => (
-                                    <SelectItem key={action.value} value={action.value} className="text-xs">{action.label}</SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                            </div>
-                          ))}
+                          {renderPinchBindings('right', ['index', 'middle', 'ring', 'pinky'], handActions)}
+                          {renderPoseBindings('right', handActions)}
                         </div>
                       )}
                     </div>
@@ -300,6 +694,12 @@ export function SettingsMenu({ onOpen, onSave, onReset, onResetConfig, config, o
                 </div>
               </div>
             )}
+
+            {activeTab === 'bindings' && (
+              <div className="space-y-6 animate-in fade-in slide-in-from-right-2">
+                <BindingEditor commands={commands} config={config} onConfigChange={onConfigChange} />
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Cloud, Download, Plus, SlidersHorizontal, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSettingsProfiles } from '@/hooks/use-settings-profiles';
+import { useSessionUser } from '@/hooks/use-settings-sync';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/utils';
+import type { SettingsConfig } from '@/components/SettingsMenu';
+
+interface SettingsProfilesProps {
+  config: SettingsConfig;
+}
+
+/**
+ * Picks the active settings profile. Every change in the settings menu is
+ * saved into it, so switching profiles swaps the whole configuration.
+ */
+export function SettingsProfiles({ config }: SettingsProfilesProps) {
+  const { store, profiles, activeProfile } = useSettingsProfiles();
+  const { data: user } = useSessionUser();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    store.createProfile(newName, config);
+    setNewName('');
+  };
+
+  const handleExport = () => {
+    const slug = activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadBlob(
+      new Blob([store.exportProfile(activeProfile.id)], { type: 'application/json' }),
+      `voxelcraft_settings_${slug}.json`
+    );
+  };
+
+  const handleImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = async (e: any) => {
+      const file: File | undefined = e.target.files?.[0];
+      if (!file) return;
+      try {
+        const profile = store.importProfile(await file.text());
+        toast({ title: 'Settings imported', description: profile.name });
+      } catch (err: any) {
+        toast({ title: `Could not import ${file.name}`, description: err.message, variant: 'destructive' });
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+        <Label>Settings Profile</Label>
+      </div>
+
+      <div className="grid gap-3 pl-2">
+        <div className="flex items-center gap-2">
+          <Select value={activeProfile.id} onValueChange={(val) => store.setActiveProfile(val)}>
+            <SelectTrigger className="h-8 text-xs glass">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id} className="text-xs">{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => store.deleteProfile(activeProfile.id)}
+            disabled={profiles.length <= 1}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-destructive"
+            title="Delete profile"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="Save current settings as..."
+            className="h-8 text-xs glass"
+            maxLength={60}
+          />
+          <Button onClick={handleCreate} disabled={!newName.trim()} variant="outline" size="icon" className="h-8 w-8 shrink-0 glass" title="Add profile">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button onClick={handleImport} variant="outline" size="sm" className="h-8 glass border-primary/20 hover:bg-primary/10 hover:border-primary/40">
+            <Upload className="w-3 h-3 mr-2" />
+            Import
+          </Button>
+          <Button onClick={handleExport} variant="outline" size="sm" className="h-8 glass border-primary/20 hover:bg-primary/10 hover:border-primary/40">
+            <Download className="w-3 h-3 mr-2" />
+            Export
+          </Button>
+        </div>
+
+        <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          {user && <Cloud className="w-3 h-3" />}
+          {user ? `Synced to ${user.username}'s account` : 'Backed up for this browser; synced across devices when signed in.'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,31 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
-import { VoxelScene } from '@/lib/voxelScene';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { VoxelScene, type PointingMode, type RotationMode } from '@/lib/voxelScene';
+import { DesktopControls } from '@/lib/desktopControls';
+import { isVoxFile, parseVox, writeVox } from '@/lib/voxFormat';
+import { createProjectFile, loadProjectFile } from '@/lib/projectFile';
+import { migrateProjectFile, parseProjectFile, type ProjectFile, type ProjectMetadata } from '@shared/project';
+import { Autosaver, openAutosaveStore, type AutosaveSnapshot, type AutosaveStore } from '@/lib/autosave';
+import { useToast } from '@/hooks/use-toast';
 import { useHandTracking } from '@/hooks/useHandTracking';
-import { HandGestures } from '@/lib/gestureRecognition';
+import { useUserProfiles } from '@/hooks/use-user-profiles';
+import { useSettingsProfiles } from '@/hooks/use-settings-profiles';
+import { useSettingsSync } from '@/hooks/use-settings-sync';
+import { mergeConfig } from '@/lib/settingsProfiles';
+import { getPinchConfig } from '@/lib/userProfile';
+import type { HandGestures } from '@/lib/gestureRecognition';
+import { parseRecording, serializeRecording } from '@/lib/handRecording';
+import { DEFAULT_SMOOTHING } from '@/lib/oneEuroFilter';
+import { BUILTIN_MOTION_TEMPLATES } from '@/lib/motionGestures';
+import { GestureDispatcher } from '@/lib/gestureDispatch';
+import { createSceneCommands } from '@/lib/sceneCommands';
+import { CommandRegistry, DEFAULT_KEY_BINDINGS, formatShortcut, shortcutFromEvent } from '@/lib/commands';
+import { useCommands } from '@/hooks/use-commands';
+import { downloadBlob } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { 
   Hand, 
   Camera, 
   CameraOff, 
-  Trash2, 
   Info,
   Box,
   Plus,
@@ -23,85 +41,217 @@ import {
   Lock,
   RotateCcw,
   ZoomIn,
-  ZoomOut
+  ZoomOut,
+  Undo2,
+  Redo2,
+  MousePointer2,
+  Layers,
+  Focus,
+  FileUp,
+  Save,
+  Search,
+  MousePointerClick,
+  SquareDashed
 } from 'lucide-react';
 
-import { SettingsMenu, ActionType } from '@/components/SettingsMenu';
+import { SettingsMenu, ActionType, MotionGestureConfig, PinchBinding, ProjectFileFormat } from '@/components/SettingsMenu';
+import { CommandPalette } from '@/components/CommandPalette';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { CloudProjectRef } from '@/components/CloudProjects';
+
+function pinchBinding(binding: Partial<PinchBinding>): PinchBinding {
+  return { tap: 'none', hold: 'none', doubleTap: 'none', ...binding };
+}
 
-interface GestureDebounce {
-  rightIndexPinch: boolean;
-  rightMiddlePinch: boolean;
-  leftIndexPinch: boolean;
-  leftMiddlePinch: boolean;
+// e.g. "hold rotate, double tap undo"
+function describeBinding(binding: PinchBinding): string {
+  const parts = [
+    binding.tap !== 'none' && `tap ${binding.tap}`,
+    binding.hold !== 'none' && `hold ${binding.hold}`,
+    binding.doubleTap !== 'none' && `double tap ${binding.doubleTap}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
 }
 
-export function VoxelBuilder() {
-  const DEFAULT_CONFIG = {
-    leftHandEnabled: true,
-    rightHandEnabled: true,
-    showHandOverlay: true,
-    sensitivity: 10.0,
-    handsSwapped: false,
-    left: {
-      index: 'rotate' as ActionType,
-      middle: 'zoomIn' as ActionType,
-      ring: 'zoomOut' as ActionType,
-      pinky: 'lock' as ActionType
-    },
-    right: {
-      index: 'place' as ActionType,
-      middle: 'delete' as ActionType
-    }
-  };
+const DEFAULT_CONFIG = {
+  leftHandEnabled: true,
+  rightHandEnabled: true,
+  showHandOverlay: true,
+  sensitivity: 10.0,
+  rotationMode: 'translate' as RotationMode,
+  pointingMode: 'fingertip' as PointingMode,
+  twoHandGestures: true,
+  handsSwapped: false,
+  smoothing: DEFAULT_SMOOTHING,
+  motionGestures: {
+    enabled: true,
+    hand: 'left',
+    bindings: { swipeLeft: 'palettePrev', swipeRight: 'paletteNext', shake: 'undo' },
+  } as MotionGestureConfig,
+  poseBindings: {
+    left: {} as Record<string, ActionType>,
+    right: {} as Record<string, ActionType>,
+  },
+  left: {
+    index: pinchBinding({ hold: 'rotate' }),
+    middle: pinchBinding({ hold: 'zoomIn' }),
+    ring: pinchBinding({ hold: 'zoomOut' }),
+    pinky: pinchBinding({ hold: 'lock' })
+  },
+  right: {
+    index: pinchBinding({ tap: 'place', hold: 'paint' }),
+    middle: pinchBinding({ tap: 'delete', hold: 'erase' }),
+    ring: pinchBinding({ tap: 'cycleFace' }),
+    pinky: pinchBinding({ tap: 'selectToggle', doubleTap: 'selectConnected' })
+  },
+  keyBindings: DEFAULT_KEY_BINDINGS
+};
 
-  const [config, setConfig] = useState(DEFAULT_CONFIG);
+export function VoxelBuilder() {
+  // The config lives in the active settings profile, which persists it
+  const { store: settingsStore, activeProfile: settingsProfile } = useSettingsProfiles();
+  const config = useMemo(() => mergeConfig(DEFAULT_CONFIG, settingsProfile.config), [settingsProfile]);
+  useSettingsSync();
 
   const handleResetConfig = useCallback(() => {
-    setConfig(DEFAULT_CONFIG);
-    if (sceneRef.current) {
-      sceneRef.current.setSensitivity(DEFAULT_CONFIG.sensitivity);
-    }
-  }, []);
+    settingsStore.updateConfig(settingsStore.getActiveProfile().id, DEFAULT_CONFIG);
+  }, [settingsStore]);
   
   const [voxelCount, setVoxelCount] = useState(1);
+  const [selectionCount, setSelectionCount] = useState(0);
+  const [hasSelectionAnchor, setHasSelectionAnchor] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
   const [webglError, setWebglError] = useState<string | null>(null);
   const [cursorStatus, setCursorStatus] = useState({ hasTarget: false, canPlace: false, canDelete: false });
+  const [depthLayer, setDepthLayer] = useState(0);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [palette, setPalette] = useState<string[]>([]);
+  const [activeColor, setActiveColor] = useState(0);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [fileFormat, setFileFormat] = useState<ProjectFileFormat>('json');
+  const [cloudProject, setCloudProject] = useState<CloudProjectRef | null>(null);
+  const projectMetaRef = useRef<Pick<ProjectMetadata, 'name' | 'createdAt'> | null>(null);
+  const autosaveStoreRef = useRef<AutosaveStore | null>(null);
+  const autosaveRef = useRef<Autosaver | null>(null);
+  const [recovery, setRecovery] = useState<AutosaveSnapshot | null>(null);
+  // Gestures and shortcuts are ignored until startup knows whether to offer an
+  // autosave back, so nothing edits the empty scene behind the recovery dialog
+  const recoveryPendingRef = useRef(true);
+  const { toast } = useToast();
 
   const containerRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<VoxelScene | null>(null);
-  const { isInitialized, isRunning, error, gestures, videoRef, canvasRef, start, stop } = useHandTracking(config.showHandOverlay);
   
   const [showCamera, setShowCamera] = useState(true);
 
-  const lastGestureRef = useRef<GestureDebounce>({
-    rightIndexPinch: false,
-    rightMiddlePinch: false,
-    leftIndexPinch: false,
-    leftMiddlePinch: false,
-  });
+  const syncSceneState = useCallback((scene: VoxelScene) => {
+    setVoxelCount(scene.getVoxelCount());
+    setSelectionCount(scene.getSelectionSize());
+    setHasSelectionAnchor(scene.hasSelectionAnchor());
+    setPalette(scene.getPalette());
+    setActiveColor(scene.getActiveColorIndex());
+    setCanUndo(scene.canUndo());
+    setCanRedo(scene.canRedo());
+  }, []);
+
+  const commandsRef = useRef(new CommandRegistry());
+  const commands = commandsRef.current;
+  const commandList = useCommands(commands);
+
+  // e.g. "Undo (Ctrl+Z)"
+  const commandTitle = (id: string) => {
+    const label = commands.get(id)?.label ?? id;
+    const shortcut = config.keyBindings[id]?.[0];
+    return shortcut ? `${label} (${formatShortcut(shortcut)})` : label;
+  };
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === 'f') {
-        setIsFullScreen(prev => !prev);
-      }
+      if (recoveryPendingRef.current) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const shortcut = shortcutFromEvent(e);
+      const id = shortcut && Object.keys(config.keyBindings).find((commandId) => config.keyBindings[commandId].includes(shortcut));
+      if (!id) return;
+      e.preventDefault();
+      commands.execute(id);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  }, [config.keyBindings]);
+
+  const startAutosave = () => {
+    const store = autosaveStoreRef.current;
+    if (!store) return;
+    autosaveRef.current = new Autosaver(store, () =>
+      sceneRef.current
+        ? createProjectFile(sceneRef.current, { ...projectMetaRef.current, name: projectMetaRef.current?.name ?? 'Autosave' })
+        : null
+    );
+  };
 
   useEffect(() => {
     if (!containerRef.current) return;
 
     try {
-      const scene = new VoxelScene(containerRef.current);
+      // Left empty until we know whether there is unsaved work to offer back
+      const scene = new VoxelScene(containerRef.current, { initialCube: false });
       sceneRef.current = scene;
-      setVoxelCount(scene.getVoxelCount());
+      syncSceneState(scene);
+      const unsubscribe = scene.onChange(() => {
+        syncSceneState(scene);
+        autosaveRef.current?.schedule();
+      });
+      const desktopControls = new DesktopControls(scene, setCursorStatus);
+
+      // A hidden tab may be discarded without warning
+      const handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') autosaveRef.current?.flush();
+      };
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+
+      let disposed = false;
+      openAutosaveStore()
+        .then(async (store) => {
+          const snapshot = store ? await store.latest() : null;
+          if (disposed) return;
+          autosaveStoreRef.current = store;
+          if (snapshot?.needsRecovery) {
+            setRecovery(snapshot);
+            return;
+          }
+          scene.placeInitialCube();
+          recoveryPendingRef.current = false;
+          startAutosave();
+        })
+        .catch((err) => {
+          console.warn('Failed to read autosave:', err);
+          if (disposed) return;
+          scene.placeInitialCube();
+          recoveryPendingRef.current = false;
+        });
 
       return () => {
+        disposed = true;
+        autosaveRef.current?.flush();
+        autosaveRef.current?.dispose();
+        autosaveRef.current = null;
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        desktopControls.destroy();
+        unsubscribe();
         scene.destroy();
         sceneRef.current = null;
       };
@@ -111,148 +261,218 @@ export function VoxelBuilder() {
     }
   }, []);
 
-  const processGestures = useCallback((gestures: HandGestures) => {
-    if (!sceneRef.current) return;
+  useEffect(() => {
+    sceneRef.current?.setSensitivity(config.sensitivity);
+    sceneRef.current?.setRotationMode(config.rotationMode);
+  }, [config.sensitivity, config.rotationMode]);
 
+  const { activeProfile } = useUserProfiles();
+  const pinchConfig = useMemo(() => getPinchConfig(activeProfile), [activeProfile]);
+  const dispatcherRef = useRef(new GestureDispatcher(commands));
+
+  useEffect(() => {
+    dispatcherRef.current.setMotionTemplates([...BUILTIN_MOTION_TEMPLATES, ...(activeProfile?.motionTemplates ?? [])]);
+    dispatcherRef.current.setPoseSamples(activeProfile?.poseSamples ?? []);
+  }, [activeProfile]);
+
+  const processGestures = useCallback((gestures: HandGestures) => {
     const scene = sceneRef.current;
-    const lastGesture = lastGestureRef.current;
-
-    const getActionFromMappings = (hand: 'left' | 'right', action: ActionType, pinches: { index: boolean; middle: boolean; ring?: boolean; pinky?: boolean }): boolean => {
-      if (hand === 'right') {
-        const mappings = config.right;
-        if (mappings.index === action && pinches.index) return true;
-        if (mappings.middle === action && pinches.middle) return true;
-        return false;
-      }
-      
-      const mappings = config.left;
-      if (mappings.index === action && pinches.index) return true;
-      if (mappings.middle === action && pinches.middle) return true;
-      if (mappings.ring === action && pinches.ring) return true;
-      if (mappings.pinky === action && pinches.pinky) return true;
-      return false;
-    };
+    if (!scene || recoveryPendingRef.current) return;
 
-    // Determine which real hand maps to which logic hand
-    const viewHand = config.handsSwapped ? gestures.right : gestures.left;
-    const buildHand = config.handsSwapped ? gestures.left : gestures.right;
+    const frame = dispatcherRef.current.process(scene, gestures, config);
+    setIsLocked(scene.isLockedState());
+    setDepthLayer(frame.depthLayer);
+    setCursorStatus(frame.cursorStatus);
+  }, [config]);
 
-    if (viewHand && config.leftHandEnabled) {
-      const pinches = {
-        index: viewHand.indexThumbPinch,
-        middle: viewHand.middleThumbPinch,
-        ring: viewHand.ringThumbPinch,
-        pinky: viewHand.pinkyThumbPinch
-      };
-      
-      scene.updateLeftHand(
-        viewHand.palmPosition,
-        getActionFromMappings('left', 'rotate', pinches),
-        getActionFromMappings('left', 'zoomIn', pinches),
-        getActionFromMappings('left', 'zoomOut', pinches),
-        getActionFromMappings('left', 'lock', pinches)
-      );
-      setIsLocked(scene.isLockedState());
-    }
+  const {
+    isInitialized,
+    isRunning,
+    error,
+    errorKind,
+    gestures,
+    videoRef,
+    canvasRef,
+    start,
+    stop,
+    isRecording,
+    isPlaying,
+    startRecording,
+    stopRecording,
+    playRecording,
+    stopPlayback,
+  } = useHandTracking({
+    showOverlay: config.showHandOverlay,
+    smoothing: config.smoothing,
+    pinch: pinchConfig,
+    onGestures: processGestures,
+  });
 
-    if (buildHand && config.rightHandEnabled) {
-      const pinches = {
-        index: buildHand.indexThumbPinch,
-        middle: buildHand.middleThumbPinch,
-        ring: false,
-        pinky: false
-      };
+  const handleActiveColorChange = useCallback((index: number) => {
+    sceneRef.current?.setActiveColorIndex(index);
+  }, []);
 
-      const status = scene.updateCursor(
-        buildHand.palmPosition,
-        false,
-        false
-      );
-      setCursorStatus(status);
+  const handlePaletteColorChange = useCallback((index: number, color: string) => {
+    sceneRef.current?.setPaletteColor(index, color);
+  }, []);
 
-      const placeActive = getActionFromMappings('right', 'place', pinches);
-      const deleteActive = getActionFromMappings('right', 'delete', pinches);
+  const handleAddPaletteColor = useCallback(() => {
+    if (!sceneRef.current) return;
+    const palette = sceneRef.current.getPalette();
+    sceneRef.current.addPaletteColor(palette[sceneRef.current.getActiveColorIndex()]);
+  }, []);
 
-      if (placeActive && !lastGesture.rightIndexPinch && status.canPlace) {
-        if (scene.placeCube()) setVoxelCount(scene.getVoxelCount());
-      }
-      if (deleteActive && !lastGesture.rightMiddlePinch && status.canDelete) {
-        if (scene.deleteCube()) setVoxelCount(scene.getVoxelCount());
-      }
+  const handleRemovePaletteColor = useCallback((index: number) => {
+    sceneRef.current?.removePaletteColor(index);
+  }, []);
 
-      lastGesture.rightIndexPinch = placeActive;
-      lastGesture.rightMiddlePinch = deleteActive;
-    } else {
-      scene.hideCursor();
-      setCursorStatus({ hasTarget: false, canPlace: false, canDelete: false });
-    }
+  const handleConfigChange = (key: string, value: any) => {
+    // Read back from the store so that changes made in the same event build on each other
+    const profile = settingsStore.getActiveProfile();
+    settingsStore.updateConfig(profile.id, { ...mergeConfig(DEFAULT_CONFIG, profile.config), [key]: value });
+  };
 
-    if (viewHand && config.leftHandEnabled) {
-      lastGesture.leftIndexPinch = viewHand.indexThumbPinch;
-      lastGesture.leftMiddlePinch = viewHand.middleThumbPinch;
-    }
-  }, [config]);
+  const handleExportProject = useCallback((name: string): ProjectFile | null => {
+    if (!sceneRef.current) return null;
+    return createProjectFile(sceneRef.current, { ...projectMetaRef.current, name });
+  }, []);
 
-  useEffect(() => {
-    processGestures(gestures);
-  }, [gestures]);
+  // Called once a file or cloud save has gone through; until then the
+  // autosave stays the only copy and must still be offered back after a crash
+  const handleProjectSaved = useCallback((file: ProjectFile) => {
+    projectMetaRef.current = { name: file.metadata.name, createdAt: file.metadata.createdAt };
+    autosaveRef.current?.markSaved();
+  }, []);
 
-  const handleClear = useCallback(() => {
-    if (sceneRef.current) {
-      sceneRef.current.clearAll();
-      setVoxelCount(1);
-    }
+  const handleImportProject = useCallback((file: ProjectFile) => {
+    if (!sceneRef.current) return;
+    loadProjectFile(sceneRef.current, file);
+    projectMetaRef.current = { name: file.metadata.name, createdAt: file.metadata.createdAt };
   }, []);
 
-  const handleConfigChange = (key: string, value: any) => {
-    setConfig(prev => {
-      let newConfig = { ...prev, [key]: value };
-      
-      if (key === 'sensitivity' && sceneRef.current) {
-        sceneRef.current.setSensitivity(value);
+  const handleRecovery = (restore: boolean) => {
+    const scene = sceneRef.current;
+    const snapshot = recovery;
+    setRecovery(null);
+    if (!scene || !snapshot) return;
+
+    if (restore) {
+      try {
+        handleImportProject(migrateProjectFile(snapshot.project));
+        // The recovered work is where this session starts, not an undoable import
+        scene.clearHistory();
+      } catch (err: any) {
+        toast({ title: 'Could not restore autosave', description: err.message, variant: 'destructive' });
       }
-      return newConfig;
-    });
+    }
+    scene.placeInitialCube();
+    recoveryPendingRef.current = false;
+    autosaveStoreRef.current?.markRecovered().catch((err) => console.warn('Failed to update autosave:', err));
+    startAutosave();
   };
 
   const handleOpen = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = fileFormat === 'vox' ? '.vox' : '.json';
     input.onchange = (e: any) => {
       const file = e.target.files?.[0];
       if (!file) return;
       const reader = new FileReader();
       reader.onload = (event: any) => {
         try {
-          const data = JSON.parse(event.target.result);
-          if (Array.isArray(data) && sceneRef.current) {
-            sceneRef.current.importData(data);
-            setVoxelCount(sceneRef.current.getVoxelCount());
+          const buffer = event.target.result as ArrayBuffer;
+          if (isVoxFile(buffer)) {
+            sceneRef.current?.importData(parseVox(buffer));
+            projectMetaRef.current = null;
+            return;
           }
-        } catch (err) {
+
+          // Validation happens before the scene is touched, so a bad file leaves it intact
+          handleImportProject(parseProjectFile(new TextDecoder().decode(buffer)));
+        } catch (err: any) {
           console.error('Failed to parse voxel data:', err);
+          toast({
+            title: `Could not open ${file.name}`,
+            description: err.message,
+            variant: 'destructive',
+          });
         }
       };
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     };
     input.click();
-  }, []);
+  }, [fileFormat, handleImportProject, toast]);
 
   const handleSave = useCallback(() => {
     if (sceneRef.current) {
-      const data = sceneRef.current.exportData();
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `voxelcraft_${new Date().getTime()}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const timestamp = new Date().getTime();
+      if (fileFormat === 'vox') {
+        downloadBlob(new Blob([writeVox(sceneRef.current.exportData())], { type: 'application/octet-stream' }), `voxelcraft_${timestamp}.vox`);
+        autosaveRef.current?.markSaved();
+        return;
+      }
+      const file = handleExportProject(projectMetaRef.current?.name ?? `voxelcraft_${timestamp}`);
+      if (!file) return;
+      downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `voxelcraft_${timestamp}.json`);
+      handleProjectSaved(file);
     }
-  }, []);
+  }, [fileFormat, handleExportProject, handleProjectSaved]);
+
+  const handleToggleRecording = useCallback(() => {
+    if (!isRecording) {
+      startRecording();
+      return;
+    }
+    const recording = stopRecording();
+    if (!recording || recording.frames.length === 0) {
+      toast({ title: 'Nothing recorded', description: 'Start the camera before recording hand movements.' });
+      return;
+    }
+    downloadBlob(
+      new Blob([serializeRecording(recording)], { type: 'application/json' }),
+      `voxelcraft_hands_${new Date().getTime()}.json`
+    );
+  }, [isRecording, startRecording, stopRecording, toast]);
+
+  const handlePlayRecording = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+    input.onchange = async (e: any) => {
+      const file: File | undefined = e.target.files?.[0];
+      if (!file) return;
+      try {
+        playRecording(parseRecording(await file.text()));
+      } catch (err: any) {
+        toast({ title: `Could not play ${file.name}`, description: err.message, variant: 'destructive' });
+      }
+    };
+    input.click();
+  }, [playRecording, toast]);
+
+  useEffect(() => {
+    const scene = () => sceneRef.current;
+    return commands.register([
+      ...createSceneCommands(scene),
+      {
+        id: 'toggleLock',
+        label: 'Toggle View Lock',
+        icon: Lock,
+        group: 'View',
+        run: () => {
+          scene()?.toggleLock();
+          setIsLocked(!!scene()?.isLockedState());
+        },
+      },
+      { id: 'resetView', label: 'Reset View', icon: Focus, group: 'View', run: () => scene()?.resetView() },
+      { id: 'fullscreen', label: 'Toggle Full Screen', icon: Maximize2, group: 'View', run: () => setIsFullScreen((prev) => !prev) },
+      { id: 'instructions', label: 'Show Controls', icon: Info, group: 'View', run: () => setShowInstructions((prev) => !prev) },
+      { id: 'commandPalette', label: 'Command Palette', icon: Search, group: 'View', run: () => setShowPalette((prev) => !prev) },
+      { id: 'open', label: 'Open Project...', icon: FileUp, group: 'File', run: handleOpen, needsUserActivation: true },
+      { id: 'save', label: 'Save As...', icon: Save, group: 'File', run: handleSave },
+    ]);
+  }, [handleOpen, handleSave]);
 
   return (
     <div className={`relative w-full h-screen overflow-hidden bg-[#0a0a0f] ${isFullScreen ? 'fullscreen-mode' : ''}`}>
@@ -289,18 +509,47 @@ export function VoxelBuilder() {
       </div>
 
       <div className="absolute top-4 right-4 flex gap-2 z-50">
+        <Button onClick={() => commands.execute('undo')} disabled={!canUndo} variant="outline" size="icon" className="glass text-primary h-8 w-8" title={commandTitle('undo')}>
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => commands.execute('redo')} disabled={!canRedo} variant="outline" size="icon" className="glass text-primary h-8 w-8" title={commandTitle('redo')}>
+          <Redo2 className="w-4 h-4" />
+        </Button>
+        <Button onClick={() => commands.execute('commandPalette')} variant="outline" size="icon" className="glass text-primary h-8 w-8" title={commandTitle('commandPalette')}>
+          <Search className="w-4 h-4" />
+        </Button>
         <SettingsMenu 
-          onOpen={handleOpen} 
-          onSave={handleSave} 
-          onReset={handleClear} 
+          onOpen={() => commands.execute('open')} 
+          onSave={() => commands.execute('save')} 
+          onReset={() => commands.execute('clear')} 
           onResetConfig={handleResetConfig}
+          fileFormat={fileFormat}
+          onFileFormatChange={setFileFormat}
+          cloudProject={cloudProject}
+          onCloudProjectChange={setCloudProject}
+          onExportProject={handleExportProject}
+          onProjectSaved={handleProjectSaved}
+          onImportProject={handleImportProject}
+          isRecording={isRecording}
+          isPlayingRecording={isPlaying}
+          onToggleRecording={handleToggleRecording}
+          onPlayRecording={handlePlayRecording}
+          onStopPlayback={stopPlayback}
+          palette={palette}
+          activeColor={activeColor}
+          onActiveColorChange={handleActiveColorChange}
+          onPaletteColorChange={handlePaletteColorChange}
+          onAddPaletteColor={handleAddPaletteColor}
+          onRemovePaletteColor={handleRemovePaletteColor}
+          gestures={gestures}
+          commands={commandList}
           config={config} 
           onConfigChange={handleConfigChange} 
         />
-        <Button onClick={() => setShowInstructions(!showInstructions)} variant="outline" size="icon" className="glass text-primary h-8 w-8">
+        <Button onClick={() => commands.execute('instructions')} variant="outline" size="icon" className="glass text-primary h-8 w-8" title={commandTitle('instructions')}>
           <Info className="w-5 h-5" />
         </Button>
-        <Button onClick={() => setIsFullScreen(!isFullScreen)} variant="outline" size="icon" className="glass text-primary h-8 w-8">
+        <Button onClick={() => commands.execute('fullscreen')} variant="outline" size="icon" className="glass text-primary h-8 w-8" title={commandTitle('fullscreen')}>
           {isFullScreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
         </Button>
       </div>
@@ -309,9 +558,19 @@ export function VoxelBuilder() {
         <div className="flex items-center gap-3">
           <Box className="w-5 h-5 text-primary" />
           <span className="font-mono text-lg">{voxelCount} {voxelCount === 1 ? 'voxel' : 'voxels'}</span>
+          {palette[activeColor] && (
+            <div className="w-4 h-4 rounded border border-primary/40" style={{ backgroundColor: palette[activeColor] }} />
+          )}
         </div>
         {isLocked && <div className="flex items-center gap-3 text-amber-400"><Lock className="w-5 h-5" /><span className="font-mono text-sm">LOCKED</span></div>}
+        {(selectionCount > 0 || hasSelectionAnchor) && (
+          <div className="flex items-center gap-2 text-amber-400">
+            <SquareDashed className="w-3 h-3" />
+            <span className="text-xs">{hasSelectionAnchor ? 'Pick the opposite box corner' : `${selectionCount} selected`}</span>
+          </div>
+        )}
         {cursorStatus.hasTarget && <div className="flex items-center gap-2 text-green-400"><div className="w-3 h-3 rounded-full bg-green-400 animate-pulse" /><span className="text-xs">Surface Selected</span></div>}
+        {config.pointingMode === 'depth' && gestures[config.handsSwapped ? 'left' : 'right'] && <div className="flex items-center gap-2 text-fuchsia-400"><Layers className="w-3 h-3" /><span className="text-xs">Depth Layer {depthLayer + 1}</span></div>}
         <div className="flex items-center gap-2 mt-2">
           <div className={`w-3 h-3 rounded-full ${gestures.left ? 'bg-primary animate-pulse' : 'bg-muted'}`} />
           <span className="text-xs text-muted-foreground">Left</span>
@@ -339,10 +598,10 @@ export function VoxelBuilder() {
               <div>
                 <p className="font-semibold text-sm text-primary">Left Hand - View</p>
                 <ul className="text-xs text-muted-foreground space-y-1 mt-1">
-                  <li><RotateCcw className="w-3 h-3 inline mr-1" /> {config.left.index} (Index)</li>
-                  <li><ZoomIn className="w-3 h-3 inline mr-1" /> {config.left.middle} (Middle)</li>
-                  <li><ZoomOut className="w-3 h-3 inline mr-1" /> {config.left.ring} (Ring)</li>
-                  <li><Lock className="w-3 h-3 inline mr-1" /> {config.left.pinky} (Pinky)</li>
+                  <li><RotateCcw className="w-3 h-3 inline mr-1" /> {describeBinding(config.left.index)} (Index)</li>
+                  <li><ZoomIn className="w-3 h-3 inline mr-1" /> {describeBinding(config.left.middle)} (Middle)</li>
+                  <li><ZoomOut className="w-3 h-3 inline mr-1" /> {describeBinding(config.left.ring)} (Ring)</li>
+                  <li><Lock className="w-3 h-3 inline mr-1" /> {describeBinding(config.left.pinky)} (Pinky)</li>
                 </ul>
               </div>
             </div>
@@ -351,8 +610,28 @@ export function VoxelBuilder() {
               <div>
                 <p className="font-semibold text-sm text-secondary">Right Hand - Build</p>
                 <ul className="text-xs text-muted-foreground space-y-1 mt-1">
-                  <li><Plus className="w-3 h-3 inline mr-1" /> {config.right.index} (Index)</li>
-                  <li><Minus className="w-3 h-3 inline mr-1" /> {config.right.middle} (Middle)</li>
+                  <li><Plus className="w-3 h-3 inline mr-1" /> {describeBinding(config.right.index)} (Index)</li>
+                  <li><Minus className="w-3 h-3 inline mr-1" /> {describeBinding(config.right.middle)} (Middle)</li>
+                  <li><Layers className="w-3 h-3 inline mr-1" /> {describeBinding(config.right.ring)} (Ring)</li>
+                  <li><MousePointerClick className="w-3 h-3 inline mr-1" /> {describeBinding(config.right.pinky)} (Pinky)</li>
+                </ul>
+              </div>
+            </div>
+            <div className="flex items-start gap-3">
+              <MousePointer2 className="w-5 h-5 text-primary mt-0.5" />
+              <div>
+                <p className="font-semibold text-sm text-primary">Mouse &amp; Keyboard</p>
+                <ul className="text-xs text-muted-foreground space-y-1 mt-1">
+                  <li>Click a face to place, right-click to delete</li>
+                  <li>Shift-click to select, Alt-click two box corners, Ctrl-click for the magic wand</li>
+                  <li>Drag to orbit, scroll to zoom</li>
+                  {commandList
+                    .filter((command) => config.keyBindings[command.id]?.length)
+                    .map((command) => (
+                      <li key={command.id}>
+                        {config.keyBindings[command.id].map(formatShortcut).join(' / ')} {command.label.toLowerCase()}
+                      </li>
+                    ))}
                 </ul>
               </div>
             </div>
@@ -360,6 +639,30 @@ export function VoxelBuilder() {
         </div>
       )}
 
+      <AlertDialog open={recovery !== null}>
+        <AlertDialogContent className="glass-strong">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore unsaved work?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {recovery &&
+                `Your last session was autosaved at ${new Date(recovery.savedAt).toLocaleString()} with ${recovery.project.voxels.length} voxels but never saved.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => handleRecovery(false)}>Start Fresh</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleRecovery(true)}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CommandPalette
+        open={showPalette}
+        onOpenChange={setShowPalette}
+        registry={commands}
+        commands={commandList}
+        keyBindings={config.keyBindings}
+      />
+
       {webglError && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 glass-strong rounded-xl p-6 text-center max-w-md z-50">
           <AlertTriangle className="w-12 h-12 text-amber-400 mx-auto mb-4" />
@@ -370,6 +673,21 @@ export function VoxelBuilder() {
         </div>
       )}
 
+      {error && !webglError && (
+        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 glass-strong rounded-xl p-6 text-center max-w-md z-50">
+          <AlertTriangle className="w-12 h-12 text-amber-400 mx-auto mb-4" />
+          <h3 className="font-display text-lg text-amber-400 mb-2">
+            {errorKind === 'assets' ? 'Hand Tracking Model Unavailable' : errorKind === 'camera' ? 'Camera Unavailable' : 'Hand Tracker Unavailable'}
+          </h3>
+          <p className="text-sm text-muted-foreground">{error}</p>
+          {errorKind === 'assets' && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Check that the MediaPipe files are deployed, or set VITE_MEDIAPIPE_ASSET_BASE to where they are hosted. Mouse and keyboard editing still work.
+            </p>
+          )}
+        </div>
+      )}
+
       {!isRunning && !error && !webglError && isInitialized && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
           <div className="glass-strong rounded-2xl p-8 cyber-border animate-pulse-glow">
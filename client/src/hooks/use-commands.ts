@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import type { Command, CommandRegistry } from "@/lib/commands";
+
+export function useCommands(registry: CommandRegistry): Command[] {
+  return useSyncExternalStore(
+    (listener) => registry.subscribe(listener),
+    () => registry.list(),
+  );
+}
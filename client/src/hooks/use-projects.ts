@@ -0,0 +1,78 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  PROJECT_OWNER_HEADER,
+  type InsertProject,
+  type Project,
+  type ProjectSummary,
+  type UpdateProject,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PROJECTS_KEY = ["/api/projects"];
+const OWNER_TOKEN_KEY = "voxelcraft.projectOwner";
+
+let ownerToken: string | null = null;
+
+// Identifies this browser's cloud projects and synced settings while signed
+// out. Clearing site data loses access to them.
+export function projectOwnerHeaders(): Record<string, string> {
+  if (!ownerToken) {
+    ownerToken = window.localStorage.getItem(OWNER_TOKEN_KEY);
+    if (!ownerToken) {
+      const bytes = crypto.getRandomValues(new Uint8Array(32));
+      ownerToken = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+      window.localStorage.setItem(OWNER_TOKEN_KEY, ownerToken);
+    }
+  }
+  return { [PROJECT_OWNER_HEADER]: ownerToken };
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const res = await apiRequest("GET", url, undefined, projectOwnerHeaders());
+  return (await res.json()) as T;
+}
+
+export function useProjects(enabled: boolean = true) {
+  return useQuery<ProjectSummary[]>({
+    queryKey: PROJECTS_KEY,
+    queryFn: () => getJson<ProjectSummary[]>(PROJECTS_KEY[0]),
+    enabled,
+  });
+}
+
+export function fetchProject(id: string): Promise<Project> {
+  return queryClient.fetchQuery<Project>({
+    queryKey: [...PROJECTS_KEY, id],
+    queryFn: () => getJson<Project>(`/api/projects/${id}`),
+    staleTime: 0,
+  });
+}
+
+export function useCreateProject() {
+  return useMutation({
+    mutationFn: async (project: InsertProject) => {
+      const res = await apiRequest("POST", "/api/projects", project, projectOwnerHeaders());
+      return (await res.json()) as Project;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_KEY }),
+  });
+}
+
+export function useUpdateProject() {
+  return useMutation({
+    mutationFn: async ({ id, ...update }: UpdateProject & { id: string }) => {
+      const res = await apiRequest("PATCH", `/api/projects/${id}`, update, projectOwnerHeaders());
+      return (await res.json()) as Project;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_KEY }),
+  });
+}
+
+export function useDeleteProject() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/projects/${id}`, undefined, projectOwnerHeaders());
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_KEY }),
+  });
+}
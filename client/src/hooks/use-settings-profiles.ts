@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from "react";
+import { getSettingsProfileStore, type SettingsProfileStore } from "@/lib/settingsProfiles";
+import type { SettingsProfile } from "@shared/settings";
+
+export function useSettingsProfiles(): {
+  store: SettingsProfileStore;
+  profiles: SettingsProfile[];
+  activeProfile: SettingsProfile;
+} {
+  const store = getSettingsProfileStore();
+  const state = useSyncExternalStore(
+    (listener) => store.subscribe(listener),
+    () => store.getState(),
+  );
+
+  return {
+    store,
+    profiles: state.profiles,
+    activeProfile: state.profiles.find((p) => p.id === state.activeProfileId) ?? state.profiles[0],
+  };
+}
@@ -0,0 +1,72 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import type { SettingsSync } from "@shared/settings";
+import { projectOwnerHeaders } from "@/hooks/use-projects";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { getSettingsProfileStore } from "@/lib/settingsProfiles";
+
+// Waits for a burst of edits, such as a slider drag, before uploading
+const SYNC_DELAY_MS = 2000;
+
+export function useSessionUser() {
+  return useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+}
+
+/**
+ * Keeps settings profiles in step with the server copy of their owner, the
+ * signed-in user or else this browser: the server copy is merged in once,
+ * then local changes are uploaded. The server merges each upload with what
+ * it has, so deletions made on another device come back in the reply.
+ */
+export function useSettingsSync(): PublicUser | null {
+  const { data: user, isLoading } = useSessionUser();
+  const userId = user?.id;
+
+  useEffect(() => {
+    // The owner is only known once the session has been checked
+    if (isLoading) return;
+    const store = getSettingsProfileStore();
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const upload = async () => {
+      try {
+        const body: SettingsSync = store.getSyncState();
+        const res = await apiRequest("PUT", "/api/settings", body, projectOwnerHeaders());
+        const merged = (await res.json()) as SettingsSync;
+        if (!cancelled) store.mergeRemote(merged);
+      } catch (err) {
+        console.warn("Failed to sync settings profiles:", err);
+      }
+    };
+
+    const download = async () => {
+      try {
+        const res = await apiRequest("GET", "/api/settings", undefined, projectOwnerHeaders());
+        const remote = (await res.json()) as SettingsSync;
+        if (!cancelled) store.mergeRemote(remote);
+      } catch (err) {
+        console.warn("Failed to load synced settings profiles:", err);
+      }
+      // Profiles only this browser had are uploaded as well
+      if (!cancelled) await upload();
+    };
+
+    download();
+    const unsubscribe = store.subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(upload, SYNC_DELAY_MS);
+    });
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [isLoading, userId]);
+
+  return user ?? null;
+}
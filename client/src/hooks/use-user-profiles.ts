@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from "react";
+import { getUserProfileStore, type UserProfile, type UserProfileStore } from "@/lib/userProfile";
+
+export function useUserProfiles(): {
+  store: UserProfileStore;
+  profiles: UserProfile[];
+  activeProfile: UserProfile | null;
+} {
+  const store = getUserProfileStore();
+  const state = useSyncExternalStore(
+    (listener) => store.subscribe(listener),
+    () => store.getState(),
+  );
+
+  return {
+    store,
+    profiles: state.profiles,
+    activeProfile: state.profiles.find((p) => p.id === state.activeProfileId) ?? null,
+  };
+}
@@ -1,6 +1,9 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { HandTracker, HandTrackingResult } from '@/lib/handTracking';
-import { HandGestures, processHandGestures } from '@/lib/gestureRecognition';
+import { HandTracker, HandTrackerError, HandTrackerErrorKind, HandTrackingResult } from '@/lib/handTracking';
+import { TrackerConfig, createHandTracker, getTrackerConfig } from '@/lib/trackerBackends';
+import { DEFAULT_PINCH_CONFIG, GestureProcessor, HandGestures, PinchConfig } from '@/lib/gestureRecognition';
+import { HandRecorder, HandRecording, PlaybackHandTracker } from '@/lib/handRecording';
+import { DEFAULT_SMOOTHING, LandmarkSmoother, SmoothingConfig } from '@/lib/oneEuroFilter';
 import { Hands, HAND_CONNECTIONS, Results, NormalizedLandmarkList } from '@mediapipe/hands';
 
 // Helper to draw landmarks and connectors manually if drawing_utils is missing
@@ -35,29 +38,80 @@ export interface UseHandTrackingResult {
   isInitialized: boolean;
   isRunning: boolean;
   error: string | null;
+  errorKind: HandTrackerErrorKind | null;
   gestures: HandGestures;
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
   start: () => void;
   stop: () => void;
+  isRecording: boolean;
+  isPlaying: boolean;
+  startRecording: () => void;
+  stopRecording: () => HandRecording | null;
+  playRecording: (recording: HandRecording) => void;
+  stopPlayback: () => void;
 }
 
-export function useHandTracking(showOverlay: boolean = true): UseHandTrackingResult {
+export interface UseHandTrackingOptions {
+  showOverlay?: boolean;
+  smoothing?: SmoothingConfig;
+  pinch?: PinchConfig;
+  // Defaults to the backend selected by the page URL (see getTrackerConfig)
+  tracker?: TrackerConfig;
+  // Called synchronously for every frame, so one-frame pinch events are never
+  // lost to React batching the `gestures` state
+  onGestures?: (gestures: HandGestures) => void;
+}
+
+export function useHandTracking({
+  showOverlay = true,
+  smoothing = DEFAULT_SMOOTHING,
+  pinch = DEFAULT_PINCH_CONFIG,
+  tracker: trackerConfig,
+  onGestures,
+}: UseHandTrackingOptions = {}): UseHandTrackingResult {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const trackerRef = useRef<HandTracker | null>(null);
+  const recorderRef = useRef(new HandRecorder());
+  const playbackRef = useRef<PlaybackHandTracker | null>(null);
+  // Whether the camera was running when playback took over, so it can resume
+  const resumeCameraRef = useRef(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [gestures, setGestures] = useState<HandGestures>({ left: null, right: null });
+  const [errorKind, setErrorKind] = useState<HandTrackerErrorKind | null>(null);
+  const [gestures, setGestures] = useState<HandGestures>({ left: null, right: null, timestamp: 0 });
+  const [isRecording, setIsRecording] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
 
   const showOverlayRef = useRef(showOverlay);
   useEffect(() => {
     showOverlayRef.current = showOverlay;
   }, [showOverlay]);
 
-  const handleResults = useCallback((result: HandTrackingResult) => {
-    const newGestures = processHandGestures(result.leftHand, result.rightHand);
+  const smootherRef = useRef(new LandmarkSmoother(smoothing));
+  useEffect(() => {
+    smootherRef.current.setConfig(smoothing);
+  }, [smoothing]);
+
+  const processorRef = useRef(new GestureProcessor(pinch));
+  useEffect(() => {
+    processorRef.current.setConfig(pinch);
+  }, [pinch]);
+
+  const onGesturesRef = useRef(onGestures);
+  onGesturesRef.current = onGestures;
+
+  const handleResults = useCallback((rawResult: HandTrackingResult) => {
+    // Recordings keep the raw landmarks so they can be replayed with any smoothing
+    if (!playbackRef.current) {
+      recorderRef.current.capture(rawResult);
+    }
+    const result = smootherRef.current.smooth(rawResult);
+
+    const newGestures = processorRef.current.process(result.leftHand, result.rightHand, result.timestamp);
+    onGesturesRef.current?.(newGestures);
     setGestures(newGestures);
 
     if (canvasRef.current) {
@@ -66,9 +120,10 @@ export function useHandTracking(showOverlay: boolean = true): UseHandTrackingRes
         canvasCtx.save();
         canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         
-        if (showOverlayRef.current && result.rawResults && result.rawResults.multiHandLandmarks) {
-          for (const landmarks of result.rawResults.multiHandLandmarks) {
-            drawHand(canvasCtx, landmarks);
+        // Draw from the per-hand landmarks so recorded playback shows up too
+        if (showOverlayRef.current) {
+          for (const landmarks of [result.leftHand, result.rightHand]) {
+            if (landmarks) drawHand(canvasCtx, landmarks);
           }
         }
         canvasCtx.restore();
@@ -77,25 +132,49 @@ export function useHandTracking(showOverlay: boolean = true): UseHandTrackingRes
   }, []); // Stable callback
 
   useEffect(() => {
+    let cancelled = false;
+
     const initTracker = async () => {
       if (!videoRef.current) return;
 
+      const config = trackerConfig ?? getTrackerConfig();
+      let tracker: HandTracker | null = null;
       try {
-        const tracker = new HandTracker();
+        tracker = await createHandTracker(config);
         await tracker.initialize(videoRef.current, handleResults);
+        if (cancelled) {
+          tracker.destroy();
+          return;
+        }
         trackerRef.current = tracker;
         setIsInitialized(true);
         setError(null);
+        setErrorKind(null);
       } catch (err) {
+        // A half-started tracker would keep its camera, model or reconnect loop alive
+        tracker?.destroy();
+        if (cancelled) return;
         console.error('Failed to initialize hand tracking:', err);
-        setError('Failed to initialize camera. Please ensure camera access is granted.');
+        if (err instanceof HandTrackerError) {
+          setError(err.message);
+          setErrorKind(err.kind);
+        } else if (config.kind === 'mediapipe') {
+          setError('Failed to initialize camera. Please ensure camera access is granted.');
+          setErrorKind('camera');
+        } else {
+          setError(`Failed to start the ${config.kind} hand tracker: ${err instanceof Error ? err.message : String(err)}`);
+          setErrorKind('backend');
+        }
       }
     };
 
     const timeoutId = setTimeout(initTracker, 100);
 
     return () => {
+      cancelled = true;
       clearTimeout(timeoutId);
+      playbackRef.current?.destroy();
+      playbackRef.current = null;
       if (trackerRef.current) {
         trackerRef.current.destroy();
         trackerRef.current = null;
@@ -117,14 +196,71 @@ export function useHandTracking(showOverlay: boolean = true): UseHandTrackingRes
     }
   }, []);
 
+  const startRecording = useCallback(() => {
+    recorderRef.current.start();
+    setIsRecording(true);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    setIsRecording(false);
+    return recorderRef.current.stop();
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    playback.destroy();
+    playbackRef.current = null;
+    setIsPlaying(false);
+    const noHands: HandGestures = { left: null, right: null, timestamp: performance.now() };
+    onGesturesRef.current?.(noHands);
+    setGestures(noHands);
+    smootherRef.current.reset();
+    processorRef.current.reset();
+
+    if (resumeCameraRef.current && trackerRef.current) {
+      trackerRef.current.start();
+      setIsRunning(true);
+    }
+    resumeCameraRef.current = false;
+  }, []);
+
+  const playRecording = useCallback((recording: HandRecording) => {
+    playbackRef.current?.destroy();
+
+    // Pause the camera so live frames don't interleave with the recording
+    if (!playbackRef.current) {
+      resumeCameraRef.current = isRunning;
+    }
+    if (trackerRef.current && isRunning) {
+      trackerRef.current.stop();
+      setIsRunning(false);
+    }
+
+    smootherRef.current.reset();
+    processorRef.current.reset();
+    const playback = new PlaybackHandTracker(recording, { onEnded: stopPlayback });
+    playbackRef.current = playback;
+    playback.initialize(null, handleResults);
+    playback.start();
+    setIsPlaying(true);
+  }, [isRunning, handleResults, stopPlayback]);
+
   return {
     isInitialized,
     isRunning,
     error,
+    errorKind,
     gestures,
     videoRef,
     canvasRef,
     start,
     stop,
+    isRecording,
+    isPlaying,
+    startRecording,
+    stopRecording,
+    playRecording,
+    stopPlayback,
   };
 }
\ No newline at end of file
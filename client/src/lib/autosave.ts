@@ -0,0 +1,132 @@
+import type { ProjectFile } from '@shared/project';
+
+const DB_NAME = 'voxelcraft';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+// Older snapshots are deleted as new ones are written
+const MAX_SNAPSHOTS = 5;
+// Waits for a burst of edits, such as a paint stroke, before writing
+export const AUTOSAVE_DELAY_MS = 1000;
+
+export interface AutosaveSnapshot {
+  id: number;
+  savedAt: string;
+  // Cleared once the work is saved elsewhere, restored or dismissed, so only
+  // work that would otherwise be lost is offered for recovery
+  needsRecovery: boolean;
+  project: ProjectFile;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Rolling scene snapshots in IndexedDB, newest last. Survives tab crashes
+ * and reloads, unlike anything kept in memory.
+ */
+export class AutosaveStore {
+  constructor(private db: IDBDatabase) {}
+
+  private objectStore(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(SNAPSHOT_STORE, mode).objectStore(SNAPSHOT_STORE);
+  }
+
+  list(): Promise<AutosaveSnapshot[]> {
+    return requestResult(this.objectStore('readonly').getAll() as IDBRequest<AutosaveSnapshot[]>);
+  }
+
+  async latest(): Promise<AutosaveSnapshot | null> {
+    const snapshots = await this.list();
+    return snapshots[snapshots.length - 1] ?? null;
+  }
+
+  async save(project: ProjectFile): Promise<void> {
+    await requestResult(
+      this.objectStore('readwrite').add({ savedAt: new Date().toISOString(), needsRecovery: true, project })
+    );
+
+    const store = this.objectStore('readwrite');
+    const keys = await requestResult(store.getAllKeys());
+    keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).forEach((key) => store.delete(key));
+    await transactionDone(store.transaction);
+  }
+
+  async markRecovered(): Promise<void> {
+    const snapshot = await this.latest();
+    if (!snapshot?.needsRecovery) return;
+    const store = this.objectStore('readwrite');
+    store.put({ ...snapshot, needsRecovery: false });
+    await transactionDone(store.transaction);
+  }
+}
+
+export async function openAutosaveStore(): Promise<AutosaveStore | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    return new AutosaveStore(await requestResult(request));
+  } catch (err) {
+    // Private browsing in some browsers refuses IndexedDB outright
+    console.warn('Autosave unavailable:', err);
+    return null;
+  }
+}
+
+/** Debounces scene changes into snapshots. */
+export class Autosaver {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private store: AutosaveStore,
+    private snapshot: () => ProjectFile | null
+  ) {}
+
+  schedule(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), AUTOSAVE_DELAY_MS);
+  }
+
+  // Writes a pending snapshot now, e.g. as the tab is hidden
+  async flush(): Promise<void> {
+    if (this.timer === null) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    const project = this.snapshot();
+    if (!project) return;
+    try {
+      await this.store.save(project);
+    } catch (err) {
+      console.warn('Autosave failed:', err);
+    }
+  }
+
+  // The work was saved another way, so a crash now loses nothing
+  async markSaved(): Promise<void> {
+    await this.flush();
+    try {
+      await this.store.markRecovered();
+    } catch (err) {
+      console.warn('Failed to update autosave:', err);
+    }
+  }
+
+  dispose(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandHistory, type EditCommand } from './commandHistory';
+
+// A command that sets a shared value, remembering what it replaced
+function setValue(state: { value: number }, value: number, mergeKey?: string): EditCommand {
+  const previous = state.value;
+  return {
+    label: `Set ${value}`,
+    mergeKey,
+    execute: () => {
+      state.value = value;
+    },
+    undo: () => {
+      state.value = previous;
+    },
+  };
+}
+
+test('undo and redo walk the history in order', () => {
+  const state = { value: 0 };
+  const history = new CommandHistory();
+  history.execute(setValue(state, 1));
+  history.execute(setValue(state, 2));
+
+  history.undo();
+  assert.equal(state.value, 1);
+  history.undo();
+  assert.equal(state.value, 0);
+  assert.equal(history.canUndo(), false);
+  history.redo();
+  history.redo();
+  assert.equal(state.value, 2);
+});
+
+test('consecutive commands with the same merge key are one undo step', () => {
+  const state = { value: 0 };
+  const history = new CommandHistory();
+  history.execute(setValue(state, 1));
+  [2, 3, 4].forEach((value) => history.execute(setValue(state, value, 'drag')));
+  history.execute(setValue(state, 5, 'other'));
+
+  history.undo();
+  assert.equal(state.value, 4);
+  history.undo();
+  assert.equal(state.value, 1);
+  history.redo();
+  assert.equal(state.value, 4);
+});
@@ -0,0 +1,67 @@
+export interface EditCommand {
+  label: string;
+  execute(): void;
+  undo(): void;
+  // Consecutive commands with the same key collapse into one undo step
+  mergeKey?: string;
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+export class CommandHistory {
+  private undoStack: EditCommand[] = [];
+  private redoStack: EditCommand[] = [];
+  private limit: number;
+
+  constructor(limit: number = DEFAULT_HISTORY_LIMIT) {
+    this.limit = limit;
+  }
+
+  execute(command: EditCommand): void {
+    command.execute();
+    this.record(command);
+  }
+
+  // Pushes a command whose effect has already been applied
+  record(command: EditCommand): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    this.redoStack = [];
+    if (command.mergeKey !== undefined && last?.mergeKey === command.mergeKey) {
+      this.undoStack[this.undoStack.length - 1] = { ...command, undo: last.undo };
+      return;
+    }
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+  }
+
+  undo(): EditCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    return command;
+  }
+
+  redo(): EditCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.execute();
+    this.undoStack.push(command);
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
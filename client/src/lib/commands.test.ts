@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatShortcut, shortcutFromEvent } from './commands';
+
+function keydown(key: string, modifiers: Partial<KeyboardEvent> = {}): KeyboardEvent {
+  return { key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers } as KeyboardEvent;
+}
+
+test('shortcuts name the modifiers before the key', () => {
+  assert.equal(shortcutFromEvent(keydown('Z', { ctrlKey: true, shiftKey: true })), 'ctrl+shift+z');
+  assert.equal(shortcutFromEvent(keydown('?', { shiftKey: true })), '?');
+  assert.equal(shortcutFromEvent(keydown(' ')), 'space');
+  assert.equal(shortcutFromEvent(keydown('Shift', { shiftKey: true })), null);
+});
+
+test('the plus key is spelled out so it does not read as a separator', () => {
+  assert.equal(shortcutFromEvent(keydown('+', { ctrlKey: true, shiftKey: true })), 'ctrl+plus');
+  assert.equal(formatShortcut('ctrl+plus'), 'Ctrl++');
+  assert.equal(formatShortcut('ctrl+shift+arrowup'), 'Ctrl+Shift+↑');
+});
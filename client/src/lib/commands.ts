@@ -0,0 +1,157 @@
+import type { LucideIcon } from 'lucide-react';
+
+export type CommandGroup = 'Edit' | 'Select' | 'Color' | 'View' | 'File' | 'Hold';
+
+export interface Command {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  group: CommandGroup;
+  // Absent for continuous commands, which run for as long as a pinch or
+  // pose holds them and so can't be triggered once
+  run?: () => void;
+  isEnabled?: () => boolean;
+  // Browsers only open file pickers from a real click or key press, so
+  // these can't be bound to hand gestures
+  needsUserActivation?: boolean;
+}
+
+type Listener = () => void;
+
+/**
+ * Every action the app can perform, keyed by id. Keyboard shortcuts,
+ * gesture bindings, toolbar buttons and the command palette all dispatch
+ * through `execute`, so they share one enabled check.
+ */
+export class CommandRegistry {
+  private commands = new Map<string, Command>();
+  private snapshot: Command[] = [];
+  private listeners = new Set<Listener>();
+
+  register(commands: Command[]): () => void {
+    commands.forEach((command) => this.commands.set(command.id, command));
+    this.notify();
+    return () => {
+      commands.forEach((command) => {
+        if (this.commands.get(command.id) === command) this.commands.delete(command.id);
+      });
+      this.notify();
+    };
+  }
+
+  get(id: string): Command | undefined {
+    return this.commands.get(id);
+  }
+
+  // Stable between changes, for useSyncExternalStore
+  list(): Command[] {
+    return this.snapshot;
+  }
+
+  isContinuous(id: string): boolean {
+    const command = this.commands.get(id);
+    return command !== undefined && !command.run;
+  }
+
+  isEnabled(id: string): boolean {
+    const command = this.commands.get(id);
+    return command !== undefined && (command.isEnabled?.() ?? true);
+  }
+
+  /** Runs a one-shot command, returning false if it is unknown, continuous or disabled. */
+  execute(id: string): boolean {
+    const command = this.commands.get(id);
+    if (!command?.run || !this.isEnabled(id)) return false;
+    command.run();
+    return true;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.snapshot = Array.from(this.commands.values());
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Shortcuts are lower-case keys with "ctrl", "alt" and "shift" prefixes in
+// that order, e.g. "ctrl+shift+z". Cmd on macOS counts as ctrl.
+export const DEFAULT_KEY_BINDINGS: Record<string, string[]> = {
+  undo: ['ctrl+z'],
+  redo: ['ctrl+shift+z', 'ctrl+y'],
+  selectToggle: ['s'],
+  selectBoxCorner: ['b'],
+  selectConnected: ['w'],
+  selectColor: ['c'],
+  selectAll: ['ctrl+a'],
+  invertSelection: ['ctrl+i'],
+  clearSelection: ['escape'],
+  deleteSelection: ['delete', 'backspace'],
+  recolorSelection: ['p'],
+  moveSelectionLeft: ['arrowleft'],
+  moveSelectionRight: ['arrowright'],
+  moveSelectionUp: ['arrowup'],
+  moveSelectionDown: ['arrowdown'],
+  moveSelectionForward: ['pageup'],
+  moveSelectionBack: ['pagedown'],
+  paletteNext: [']'],
+  palettePrev: ['['],
+  toggleLock: ['l'],
+  resetView: ['r'],
+  fullscreen: ['f'],
+  instructions: ['?'],
+  commandPalette: ['ctrl+k'],
+  open: ['ctrl+o'],
+  save: ['ctrl+s'],
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+export function shortcutFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = e.key === ' ' ? 'space' : e.key.toLowerCase();
+  // Shift is already part of symbols such as "?", so it only counts for
+  // letters and named keys
+  const shiftMatters = key.length > 1 || key.toUpperCase() !== key;
+  return [
+    (e.ctrlKey || e.metaKey) && 'ctrl',
+    e.altKey && 'alt',
+    e.shiftKey && shiftMatters && 'shift',
+    // "+" separates the parts, so the key itself is spelled out
+    key === '+' ? 'plus' : key,
+  ].filter(Boolean).join('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  pageup: 'PgUp',
+  pagedown: 'PgDn',
+  escape: 'Esc',
+  delete: 'Del',
+  plus: '+',
+};
+
+// e.g. "ctrl+shift+z" -> "Ctrl+Shift+Z"
+export function formatShortcut(shortcut: string): string {
+  return shortcut
+    .split('+')
+    .map((part) => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('+');
+}
+
+/** Shortcuts bound to more than one command, with the commands sharing each. */
+export function findShortcutConflicts(keyBindings: Record<string, string[]>): Map<string, string[]> {
+  const owners = new Map<string, string[]>();
+  Object.entries(keyBindings).forEach(([id, shortcuts]) => {
+    shortcuts.forEach((shortcut) => owners.set(shortcut, [...(owners.get(shortcut) ?? []), id]));
+  });
+  return new Map(Array.from(owners).filter(([, ids]) => ids.length > 1));
+}
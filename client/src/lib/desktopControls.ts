@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import type { CursorStatus, VoxelScene } from './voxelScene';
+
+const DRAG_THRESHOLD_PX = 4;
+const ORBIT_SPEED = 0.008;
+const WHEEL_ZOOM_SPEED = 0.01;
+
+export type CursorStatusCallback = (status: CursorStatus) => void;
+
+/**
+ * Mouse input for the voxel scene: click a face to place, right-click to
+ * delete, drag to orbit and wheel to zoom. With a modifier held a click
+ * selects instead: shift toggles a voxel, alt picks box corners and
+ * ctrl (cmd on macOS) selects the connected voxels of the same color.
+ * Targeting goes through the same face selection and highlight as the hand
+ * cursor.
+ */
+export class DesktopControls {
+  private scene: VoxelScene;
+  private element: HTMLElement;
+  private onStatus: CursorStatusCallback;
+  private pointerDown: { x: number; y: number; button: number } | null = null;
+  private lastMove: { x: number; y: number; time: number } | null = null;
+  private orbitVelocity = new THREE.Vector2();
+  private isDragging = false;
+
+  constructor(scene: VoxelScene, onStatus: CursorStatusCallback) {
+    this.scene = scene;
+    this.element = scene.getDomElement();
+    this.onStatus = onStatus;
+
+    this.handlePointerDown = this.handlePointerDown.bind(this);
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handlePointerLeave = this.handlePointerLeave.bind(this);
+    this.handleContextMenu = this.handleContextMenu.bind(this);
+    this.handleWheel = this.handleWheel.bind(this);
+
+    this.element.addEventListener('pointerdown', this.handlePointerDown);
+    this.element.addEventListener('pointermove', this.handlePointerMove);
+    this.element.addEventListener('pointerup', this.handlePointerUp);
+    this.element.addEventListener('pointerleave', this.handlePointerLeave);
+    this.element.addEventListener('contextmenu', this.handleContextMenu);
+    this.element.addEventListener('wheel', this.handleWheel, { passive: false });
+  }
+
+  private toNdc(e: PointerEvent | MouseEvent): THREE.Vector2 {
+    const rect = this.element.getBoundingClientRect();
+    return new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    );
+  }
+
+  private updateTarget(e: PointerEvent | MouseEvent): CursorStatus {
+    const status = this.scene.updatePointer(this.toNdc(e));
+    this.onStatus(status);
+    return status;
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (e.pointerType === 'mouse' && e.button !== 0 && e.button !== 2) return;
+    this.pointerDown = { x: e.clientX, y: e.clientY, button: e.button };
+    this.lastMove = { x: e.clientX, y: e.clientY, time: e.timeStamp };
+    this.orbitVelocity.set(0, 0);
+    this.isDragging = false;
+    this.element.setPointerCapture(e.pointerId);
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    if (!this.pointerDown || this.pointerDown.button !== 0) {
+      this.updateTarget(e);
+      return;
+    }
+
+    const totalX = e.clientX - this.pointerDown.x;
+    const totalY = e.clientY - this.pointerDown.y;
+    if (!this.isDragging && Math.hypot(totalX, totalY) < DRAG_THRESHOLD_PX) return;
+    this.isDragging = true;
+
+    if (this.lastMove) {
+      const dx = (e.clientX - this.lastMove.x) * ORBIT_SPEED;
+      const dy = (e.clientY - this.lastMove.y) * ORBIT_SPEED;
+      this.scene.orbitBy(dx, dy);
+
+      const dt = Math.max(e.timeStamp - this.lastMove.time, 1) / 16.67;
+      this.orbitVelocity.set(dx / dt, dy / dt);
+    }
+    this.lastMove = { x: e.clientX, y: e.clientY, time: e.timeStamp };
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const down = this.pointerDown;
+    this.pointerDown = null;
+    this.lastMove = null;
+    if (this.element.hasPointerCapture(e.pointerId)) {
+      this.element.releasePointerCapture(e.pointerId);
+    }
+    if (!down) return;
+
+    if (this.isDragging) {
+      this.isDragging = false;
+      this.scene.releaseOrbit(this.orbitVelocity.x, this.orbitVelocity.y);
+      return;
+    }
+
+    if (down.button === 0) {
+      const status = this.updateTarget(e);
+      if (e.shiftKey) this.scene.toggleTargetSelection();
+      else if (e.altKey) this.scene.markSelectionCorner();
+      else if (e.ctrlKey || e.metaKey) this.scene.selectConnected();
+      else if (status.canPlace) this.scene.placeCube();
+    }
+  }
+
+  private handleContextMenu(e: MouseEvent): void {
+    e.preventDefault();
+    // Ctrl-click opens the context menu on macOS; it selects instead
+    if (e.ctrlKey) return;
+    const status = this.updateTarget(e);
+    if (status.canDelete) this.scene.deleteCube();
+  }
+
+  private handlePointerLeave(): void {
+    if (this.pointerDown) return;
+    this.scene.hideCursor('pointer');
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    e.preventDefault();
+    this.scene.zoomBy(e.deltaY * WHEEL_ZOOM_SPEED);
+  }
+
+  destroy(): void {
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointerleave', this.handlePointerLeave);
+    this.element.removeEventListener('contextmenu', this.handleContextMenu);
+    this.element.removeEventListener('wheel', this.handleWheel);
+  }
+}
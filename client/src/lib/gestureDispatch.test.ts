@@ -0,0 +1,176 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { CommandRegistry } from './commands';
+import { GestureDispatcher, type GestureDispatchConfig, type PinchBinding } from './gestureDispatch';
+import { DEFAULT_PINCH_CONFIG, GestureProcessor } from './gestureRecognition';
+import { parseRecording, replayRecording, type HandRecording } from './handRecording';
+import { DEFAULT_SMOOTHING, LandmarkSmoother } from './oneEuroFilter';
+import { createSceneCommands } from './sceneCommands';
+import { createSyntheticHand, sampleScript } from './syntheticHands';
+import { VoxelScene, type VoxelData } from './voxelScene';
+
+// Scripted right hand with per-frame jitter, 30 fps: an index tap, a
+// double tap on the pinky, a long middle pinch and a ring tap
+const recording = parseRecording(
+  readFileSync(new URL('./__fixtures__/pinch-session.json', import.meta.url), 'utf8')
+);
+
+function pinch(binding: Partial<PinchBinding>): PinchBinding {
+  return { tap: 'none', hold: 'none', doubleTap: 'none', ...binding };
+}
+
+// The builder's default gesture settings
+const CONFIG: GestureDispatchConfig = {
+  leftHandEnabled: true,
+  rightHandEnabled: true,
+  pointingMode: 'fingertip',
+  twoHandGestures: true,
+  handsSwapped: false,
+  motionGestures: { enabled: true, hand: 'left', bindings: {} },
+  poseBindings: { left: {}, right: {} },
+  left: {
+    index: pinch({ hold: 'rotate' }),
+    middle: pinch({ hold: 'zoomIn' }),
+    ring: pinch({ hold: 'zoomOut' }),
+    pinky: pinch({ hold: 'lock' }),
+  },
+  right: {
+    index: pinch({ tap: 'place', hold: 'paint' }),
+    middle: pinch({ tap: 'delete', hold: 'erase' }),
+    ring: pinch({ tap: 'cycleFace' }),
+    pinky: pinch({ tap: 'selectToggle', doubleTap: 'selectConnected' }),
+  },
+};
+
+// A 9x9 wall facing the camera, large enough to be under the fingertip
+function wall(): VoxelData[] {
+  const voxels: VoxelData[] = [];
+  for (let x = -4; x <= 4; x++) {
+    for (let y = -4; y <= 4; y++) voxels.push({ x, y, z: 0, color: 0 });
+  }
+  return voxels;
+}
+
+function sorted(voxels: VoxelData[]): string[] {
+  return voxels.map((v) => `${v.x},${v.y},${v.z},${v.color}`).sort();
+}
+
+function createScene(): VoxelScene {
+  const scene = new VoxelScene(null, { initialCube: false });
+  scene.importData({ palette: ['#3b82f6'], voxels: wall() });
+  scene.clearHistory();
+  scene.step();
+  return scene;
+}
+
+// Runs a recording through the live pipeline, one rendered frame per
+// recorded frame, and notes the command ids the registry ran
+function replay(scene: VoxelScene, source: HandRecording, config = CONFIG): string[] {
+  const commands = new CommandRegistry();
+  commands.register(createSceneCommands(() => scene));
+  const executed: string[] = [];
+  const execute = commands.execute.bind(commands);
+  commands.execute = (id) => {
+    const ran = execute(id);
+    if (ran) executed.push(id);
+    return ran;
+  };
+
+  const smoother = new LandmarkSmoother(DEFAULT_SMOOTHING);
+  const processor = new GestureProcessor(DEFAULT_PINCH_CONFIG);
+  const dispatcher = new GestureDispatcher(commands);
+  replayRecording(source, (raw) => {
+    const result = smoother.smooth(raw);
+    dispatcher.process(scene, processor.process(result.leftHand, result.rightHand, result.timestamp), config);
+    scene.step();
+  });
+  return executed;
+}
+
+test('a replayed session edits the scene and leaves one undo step per edit', () => {
+  const scene = createScene();
+  const executed = replay(scene, recording);
+  assert.deepEqual(executed, ['place', 'selectToggle', 'selectConnected', 'cycleFace']);
+
+  // The erase stroke swept away the cube the tap placed, and the selection
+  // lost it with it
+  assert.deepEqual(sorted(scene.exportData().voxels), sorted(wall()));
+  assert.equal(scene.getSelectionSize(), wall().length);
+
+  // Undo brings back the placed cube, then removes it again
+  assert.equal(scene.undo(), true);
+  const placed = scene.exportData().voxels.filter((v) => v.z !== 0);
+  assert.equal(placed.length, 1);
+  assert.equal(placed[0].z, 1);
+  assert.equal(scene.undo(), true);
+  assert.deepEqual(sorted(scene.exportData().voxels), sorted(wall()));
+  assert.equal(scene.canUndo(), false);
+  scene.destroy();
+});
+
+test('replaying the same session twice ends in the same scene', () => {
+  const first = createScene();
+  const second = createScene();
+  replay(first, recording);
+  replay(second, recording);
+  assert.deepEqual(first.exportData(), second.exportData());
+  assert.deepEqual(first.getCameraState(), second.getCameraState());
+  first.destroy();
+  second.destroy();
+});
+
+test('holding the view hand pinch turns the model without editing it', () => {
+  const session = sampleScript((t) => ({
+    leftHand: createSyntheticHand({ x: 0.7 - t / 10000, y: 0.5, thumbSide: 'left', pinch: ['index'] }),
+    rightHand: null,
+  }), 1000);
+  const scene = createScene();
+  const before = scene.getCameraState();
+
+  assert.deepEqual(replay(scene, session), []);
+  assert.notDeepEqual(scene.getCameraState().rotation, before.rotation);
+  assert.deepEqual(sorted(scene.exportData().voxels), sorted(wall()));
+  assert.equal(scene.canUndo(), false);
+  scene.destroy();
+});
+
+test('pinching with both hands zooms the view instead of running either hand\'s bindings', () => {
+  const session = sampleScript((t) => ({
+    leftHand: createSyntheticHand({ x: 0.7 + t / 5000, y: 0.5, thumbSide: 'left', pinch: ['index'] }),
+    rightHand: createSyntheticHand({ x: 0.3 - t / 5000, y: 0.5, thumbSide: 'right', pinch: ['index'] }),
+  }), 1000);
+  const scene = createScene();
+  const before = scene.getCameraState();
+
+  assert.deepEqual(replay(scene, session), []);
+  assert.notEqual(scene.getCameraState().zoom, before.zoom);
+  assert.equal(scene.getVoxelCount(), wall().length);
+  scene.destroy();
+});
+
+test('an index tap while the view hand holds rotate still places', () => {
+  const session = sampleScript((t) => ({
+    leftHand: createSyntheticHand({ x: 0.7, y: 0.5, thumbSide: 'left', pinch: ['index'] }),
+    rightHand: createSyntheticHand({ x: 0.4, y: 0.5, thumbSide: 'right', pinch: t >= 500 && t < 650 ? ['index'] : [] }),
+  }), 1000);
+  const scene = createScene();
+
+  assert.deepEqual(replay(scene, session), ['place']);
+  assert.equal(scene.getVoxelCount(), wall().length + 1);
+  scene.destroy();
+});
+
+test('palm pointing targets from the wrist and keeps the target off the model', () => {
+  // The hand drifts past the wall's right edge, then taps
+  const session = sampleScript((t) => ({
+    leftHand: null,
+    rightHand: createSyntheticHand({ x: Math.max(0.05, 0.5 - t / 1000), y: 0.4, thumbSide: 'right', pinch: t >= 800 && t < 950 ? ['index'] : [] }),
+  }), 1200);
+  const scene = createScene();
+
+  assert.deepEqual(replay(scene, session, { ...CONFIG, pointingMode: 'palm' }), ['place']);
+  assert.equal(scene.getVoxelCount(), wall().length + 1);
+  assert.equal(scene.exportData().voxels.filter((v) => v.z !== 0).length, 1);
+  scene.destroy();
+});
@@ -0,0 +1,194 @@
+import type { CommandRegistry } from './commands';
+import { pinchEventCommands, type GestureState, type HandGestures, type PinchFinger } from './gestureRecognition';
+import { HandDepthEstimator } from './handDepth';
+import { MotionGestureRecognizer, type MotionTemplate } from './motionGestures';
+import { PoseRecognizer, type PoseSample } from './poseClassifier';
+import { TwoHandGesture } from './twoHandGestures';
+import type { CursorStatus, PointingMode, StrokeMode, VoxelScene } from './voxelScene';
+
+type Hand = 'left' | 'right';
+
+// Command ids for each pinch event of a finger; 'none' leaves it unbound
+export type PinchBinding = Record<'tap' | 'hold' | 'doubleTap', string>;
+
+// The part of the builder config that decides what gestures do
+export interface GestureDispatchConfig {
+  leftHandEnabled: boolean;
+  rightHandEnabled: boolean;
+  pointingMode: PointingMode;
+  twoHandGestures: boolean;
+  handsSwapped: boolean;
+  motionGestures: { enabled: boolean; hand: Hand; bindings: Record<string, string> };
+  poseBindings: Record<Hand, Record<string, string>>;
+  left: Record<PinchFinger, PinchBinding>;
+  right: Record<PinchFinger, PinchBinding>;
+}
+
+export interface GestureFrame {
+  cursorStatus: CursorStatus;
+  // Layer the depth cursor is on, 0 when depth pointing is off
+  depthLayer: number;
+}
+
+/**
+ * Turns each frame of hand gestures into scene updates and commands: view
+ * control from held bindings and two-hand pinches, the cursor and paint
+ * strokes from the build hand, and one-shot commands from pinch events,
+ * motions and poses. Everything it remembers between frames lives here, so
+ * a recorded session replays through it the same way every time.
+ */
+export class GestureDispatcher {
+  private commands: CommandRegistry;
+  private twoHand = new TwoHandGesture();
+  private motion = new MotionGestureRecognizer();
+  private poses = { left: new PoseRecognizer(), right: new PoseRecognizer() };
+  private depth = new HandDepthEstimator();
+
+  constructor(commands: CommandRegistry) {
+    this.commands = commands;
+  }
+
+  setMotionTemplates(templates: MotionTemplate[]): void {
+    this.motion.setTemplates(templates);
+  }
+
+  setPoseSamples(samples: PoseSample[]): void {
+    this.poses.left.setSamples(samples);
+    this.poses.right.setSamples(samples);
+  }
+
+  process(scene: VoxelScene, gestures: HandGestures, config: GestureDispatchConfig): GestureFrame {
+    const commands = this.commands;
+
+    // Determine which real hand maps to which logic hand
+    const viewHand = config.handsSwapped ? gestures.right : gestures.left;
+    const buildHand = config.handsSwapped ? gestures.left : gestures.right;
+
+    const now = gestures.timestamp;
+    const poses = {
+      left: this.poses.left.update(config.leftHandEnabled ? viewHand : null, now),
+      right: this.poses.right.update(config.rightHandEnabled ? buildHand : null, now),
+    };
+
+    const bindingsFor = (hand: Hand) => Object.entries(config[hand]) as [PinchFinger, PinchBinding][];
+
+    // A continuous action runs while its finger is held. With nothing bound to
+    // tap or double-tap it starts on contact, otherwise after the hold delay
+    // so that taps don't nudge the view. A pose bound to it works the same way.
+    const isHolding = (hand: Hand, gesture: GestureState, action: string): boolean => {
+      const pose = poses[hand].pose;
+      if (pose && config.poseBindings[hand][pose] === action) return true;
+      return bindingsFor(hand).some(([finger, binding]) => {
+        if (binding.hold !== action) return false;
+        const pinch = gesture.pinches[finger];
+        const holdOnly = binding.tap === 'none' && binding.doubleTap === 'none';
+        return holdOnly ? pinch.active : pinch.held;
+      });
+    };
+
+    // Continuous and disabled commands are ignored by the registry
+    const runPinchEvents = (hand: Hand, gesture: GestureState) => {
+      pinchEventCommands(config[hand], gesture).forEach((id) => commands.execute(id));
+    };
+
+    // Both hands pinching take over zoom and rotation from the single-hand bindings
+    const twoHand = this.twoHand;
+    const bothHandsEnabled = config.twoHandGestures && config.leftHandEnabled && config.rightHandEnabled;
+    const twoHandUpdate = bothHandsEnabled ? twoHand.update(viewHand, buildHand, now) : null;
+    const twoHandEngaged = bothHandsEnabled && twoHand.isEngaged;
+    if (!bothHandsEnabled) twoHand.reset();
+
+    const hands = {
+      left: config.leftHandEnabled ? viewHand : null,
+      right: config.rightHandEnabled ? buildHand : null,
+    };
+    // Either hand can drive a continuous action; the view hand wins if both do
+    const holder = (action: string): GestureState | null => {
+      if (twoHandEngaged && action !== 'lock') return null;
+      for (const hand of ['left', 'right'] as const) {
+        const gesture = hands[hand];
+        if (gesture && isHolding(hand, gesture, action)) return gesture;
+      }
+      return null;
+    };
+
+    const rotateHand = holder('rotate');
+    const controlHand = rotateHand ?? hands.left ?? hands.right;
+    if (controlHand) {
+      scene.updateLeftHand(
+        controlHand.palmPosition,
+        rotateHand !== null,
+        holder('zoomIn') !== null,
+        holder('zoomOut') !== null,
+        holder('lock') !== null,
+        controlHand.palmRotation
+      );
+    }
+    if (twoHandUpdate) {
+      scene.applyTwoHandGesture(twoHandUpdate.scale, twoHandUpdate.angle);
+    }
+
+    const depthLayer = this.depth.update(
+      config.pointingMode === 'depth' && config.rightHandEnabled ? buildHand : null
+    );
+
+    // Holding paint or erase sweeps a stroke along the cursor's path
+    const strokeMode: StrokeMode | null = !hands.right
+      ? null
+      : holder('paint') ? 'paint' : holder('erase') ? 'erase' : null;
+    if (scene.getStrokeMode() !== strokeMode) {
+      scene.endStroke();
+      if (strokeMode) scene.beginStroke(strokeMode);
+    }
+
+    let cursorStatus: CursorStatus;
+    if (buildHand && config.rightHandEnabled) {
+      const pinching = Object.values(buildHand.pinches).some((pinch) => pinch.active);
+      if (scene.getStrokeMode()) {
+        scene.extendStroke(config.pointingMode === 'palm' ? buildHand.palmPosition : buildHand.indexTip);
+        cursorStatus = scene.getCursorStatus();
+      } else if (config.pointingMode === 'palm') {
+        cursorStatus = scene.updateCursor(buildHand.palmPosition);
+      } else if (pinching) {
+        // Pinching pulls the fingertip towards the thumb; keep the target still
+        cursorStatus = scene.getCursorStatus();
+      } else if (config.pointingMode === 'depth') {
+        cursorStatus = scene.updateDepthCursor(buildHand.indexTip, depthLayer);
+      } else {
+        cursorStatus = scene.updateHandPointer(
+          buildHand.indexTip,
+          config.pointingMode === 'ray' ? buildHand.pointingDirection : null
+        );
+      }
+    } else {
+      // Leave a mouse-driven target alone when the build hand is absent
+      scene.hideCursor('hand');
+      cursorStatus = scene.getCursorStatus();
+    }
+
+    if (twoHandEngaged) return { cursorStatus, depthLayer };
+
+    const motion = config.motionGestures;
+    const motionEnabled = motion.enabled && (motion.hand === 'left' ? config.leftHandEnabled : config.rightHandEnabled);
+    const match = motionEnabled
+      ? this.motion.update(motion.hand === 'left' ? viewHand : buildHand, now)
+      : null;
+    if (match) {
+      commands.execute(motion.bindings[match.name] ?? 'none');
+    }
+
+    (['left', 'right'] as const).forEach((hand) => {
+      const entered = poses[hand].entered;
+      if (entered) commands.execute(config.poseBindings[hand][entered] ?? 'none');
+    });
+
+    if (viewHand && config.leftHandEnabled) {
+      runPinchEvents('left', viewHand);
+    }
+    if (buildHand && config.rightHandEnabled) {
+      runPinchEvents('right', buildHand);
+    }
+
+    return { cursorStatus, depthLayer };
+  }
+}
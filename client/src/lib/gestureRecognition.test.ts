@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PINCH_CONFIG, PinchStateMachine, type PinchEvent } from './gestureRecognition';
+
+const FRAME_MS = 1000 / 30;
+const OPEN = 1.5;
+const PINCHED = 0.2;
+
+// Feeds one distance per frame and collects the events raised
+function run(distances: number[], machine = new PinchStateMachine()): PinchEvent[] {
+  return distances.flatMap((distance, i) => machine.update(distance, i * FRAME_MS, DEFAULT_PINCH_CONFIG).events);
+}
+
+function frames(distance: number, count: number): number[] {
+  return Array(count).fill(distance);
+}
+
+test('a short pinch is a tap', () => {
+  assert.deepEqual(run([...frames(OPEN, 3), ...frames(PINCHED, 5), ...frames(OPEN, 3)]), ['tap', 'release']);
+});
+
+test('contact shorter than the minimum press time is ignored', () => {
+  assert.deepEqual(run([...frames(OPEN, 3), PINCHED, ...frames(OPEN, 3)]), []);
+});
+
+test('a one-frame dip followed by a slow frame is not a tap', () => {
+  // 15 fps: the open frame after the dip arrives after the minimum press time
+  const machine = new PinchStateMachine();
+  const events = [OPEN, PINCHED, OPEN, OPEN].flatMap(
+    (distance, i) => machine.update(distance, i * 66, DEFAULT_PINCH_CONFIG).events
+  );
+  assert.deepEqual(events, []);
+});
+
+test('a pinch held past the hold time holds instead of tapping', () => {
+  assert.deepEqual(run([...frames(PINCHED, 15), ...frames(OPEN, 2)]), ['hold', 'release']);
+});
+
+test('a distance between the thresholds keeps the current state', () => {
+  const between = (DEFAULT_PINCH_CONFIG.thresholds.press + DEFAULT_PINCH_CONFIG.thresholds.release) / 2;
+  const machine = new PinchStateMachine();
+  run(frames(PINCHED, 3), machine);
+  assert.equal(machine.update(between, 3 * FRAME_MS, DEFAULT_PINCH_CONFIG).active, true);
+
+  const idle = new PinchStateMachine();
+  assert.equal(idle.update(between, 0, DEFAULT_PINCH_CONFIG).active, false);
+});
+
+test('a second tap soon after the first is a double tap', () => {
+  const tap = [...frames(PINCHED, 4), ...frames(OPEN, 3)];
+  assert.deepEqual(run([...tap, ...tap]), ['tap', 'release', 'doubleTap', 'release']);
+});
+
+test('taps further apart than the double-tap time stay separate', () => {
+  const tap = [...frames(PINCHED, 4), ...frames(OPEN, 3)];
+  assert.deepEqual(run([...tap, ...frames(OPEN, 15), ...tap]), ['tap', 'release', 'tap', 'release']);
+});
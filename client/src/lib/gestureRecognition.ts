@@ -1,27 +1,106 @@
 import { NormalizedLandmarkList } from '@mediapipe/hands';
 import * as THREE from 'three';
+import { normalizePose } from './poseClassifier';
+
+export type PinchFinger = 'index' | 'middle' | 'ring' | 'pinky';
+
+export const PINCH_FINGERS: PinchFinger[] = ['index', 'middle', 'ring', 'pinky'];
+
+// tap: a short press; doubleTap: a second tap soon after (replaces that tap);
+// hold: the press lasted past the hold time; release: contact ended
+export type PinchEvent = 'tap' | 'hold' | 'doubleTap' | 'release';
+
+export interface PinchState {
+  // Thumb-to-fingertip distance in palm lengths (wrist to middle knuckle)
+  distance: number;
+  // Debounced contact, true from press until release
+  active: boolean;
+  // Pressed for longer than the hold time
+  held: boolean;
+  // Events raised by this frame
+  events: PinchEvent[];
+}
 
 export interface GestureState {
-  indexThumbPinch: boolean;
-  middleThumbPinch: boolean;
-  ringThumbPinch: boolean;
-  pinkyThumbPinch: boolean;
+  pinches: Record<PinchFinger, PinchState>;
   palmPosition: THREE.Vector3;
   palmRotation: THREE.Quaternion;
+  // Apparent wrist-to-middle-knuckle length in image units; grows as the
+  // hand comes closer to the camera
+  palmScale: number;
+  // Index fingertip in the same screen-aligned space as palmPosition, whose
+  // x and y double as normalized device coordinates
+  indexTip: THREE.Vector3;
+  // Unit direction the index finger points, in camera view space where -z
+  // is into the screen
+  pointingDirection: THREE.Vector3;
+  // Landmarks normalized for position, size, orientation and handedness
+  poseFeatures: number[];
 }
 
 export interface HandGestures {
   left: GestureState | null;
   right: GestureState | null;
+  // Tracker time of the frame these came from, for anything else timed per frame
+  timestamp: number;
+}
+
+export interface PinchThresholds {
+  // Distance that starts a pinch
+  press: number;
+  // Distance that ends it; higher than press so contact doesn't flicker
+  release: number;
+}
+
+/**
+ * Pinch distances are measured in palm lengths, so the same thresholds work
+ * for small and large hands and at any distance from the camera.
+ */
+export interface PinchConfig {
+  thresholds: PinchThresholds;
+  // Calibrated per-finger thresholds that override the defaults
+  fingers?: Partial<Record<PinchFinger, PinchThresholds>>;
+  // Contact shorter than this is treated as noise
+  minPressMs: number;
+  holdMs: number;
+  // Maximum time between two tap releases to count as a double-tap
+  doubleTapMs: number;
 }
 
-const PINCH_THRESHOLD = 0.07;
+export const DEFAULT_PINCH_CONFIG: PinchConfig = {
+  thresholds: { press: 0.4, release: 0.55 },
+  minPressMs: 50,
+  holdMs: 350,
+  doubleTapMs: 350,
+};
+
+// An open hand and a firm pinch, per finger, in palm lengths
+export type PinchCalibration = Record<PinchFinger, { open: number; pinched: number }>;
+
+// Where the press and release thresholds sit between pinched (0) and open (1)
+const CALIBRATED_PRESS = 0.3;
+const CALIBRATED_RELEASE = 0.45;
+
+export function thresholdsFromCalibration(calibration: PinchCalibration): Record<PinchFinger, PinchThresholds> {
+  const thresholds = {} as Record<PinchFinger, PinchThresholds>;
+  PINCH_FINGERS.forEach((finger) => {
+    const { open, pinched } = calibration[finger];
+    const range = Math.max(open - pinched, 0);
+    thresholds[finger] = {
+      press: pinched + range * CALIBRATED_PRESS,
+      release: pinched + range * CALIBRATED_RELEASE,
+    };
+  });
+  return thresholds;
+}
 
 const THUMB_TIP = 4;
-const INDEX_TIP = 8;
-const MIDDLE_TIP = 12;
-const RING_TIP = 16;
-const PINKY_TIP = 20;
+const FINGER_TIPS: Record<PinchFinger, number> = {
+  index: 8,
+  middle: 12,
+  ring: 16,
+  pinky: 20,
+};
 const INDEX_MCP = 5;
 const WRIST = 0;
 const MIDDLE_MCP = 9;
@@ -44,6 +123,16 @@ function landmarkToVector3(landmark: { x: number; y: number; z: number }): THREE
   );
 }
 
+function computePointingDirection(landmarks: NormalizedLandmarkList): THREE.Vector3 {
+  const direction = new THREE.Vector3().subVectors(
+    landmarkToVector3(landmarks[FINGER_TIPS.index]),
+    landmarkToVector3(landmarks[INDEX_MCP])
+  );
+  // Landmark depth grows towards the user, the scene's into the screen
+  direction.z = -direction.z;
+  return direction.lengthSq() > 0 ? direction.normalize() : new THREE.Vector3(0, 0, -1);
+}
+
 function computePalmRotation(landmarks: NormalizedLandmarkList): THREE.Quaternion {
   const wrist = landmarkToVector3(landmarks[WRIST]);
   const middleMcp = landmarkToVector3(landmarks[MIDDLE_MCP]);
@@ -64,38 +153,157 @@ function computePalmRotation(landmarks: NormalizedLandmarkList): THREE.Quaternio
   return quaternion;
 }
 
-export function analyzeGestures(landmarks: NormalizedLandmarkList): GestureState {
-  const thumbTip = landmarks[THUMB_TIP];
-  const indexTip = landmarks[INDEX_TIP];
-  const middleTip = landmarks[MIDDLE_TIP];
-  const ringTip = landmarks[RING_TIP];
-  const pinkyTip = landmarks[PINKY_TIP];
-  const wrist = landmarks[WRIST];
+/**
+ * Tracks one thumb-to-finger pinch across frames. Contact must persist for
+ * minPressMs before it counts, and the separate press and release
+ * thresholds keep a pinch held near the boundary from flickering.
+ */
+export class PinchStateMachine {
+  private phase: 'open' | 'pending' | 'pressed' = 'open';
+  private phaseStart = 0;
+  private held = false;
+  private lastTapTime = -Infinity;
 
-  const indexThumbDistance = distance3D(thumbTip, indexTip);
-  const middleThumbDistance = distance3D(thumbTip, middleTip);
-  const ringThumbDistance = distance3D(thumbTip, ringTip);
-  const pinkyThumbDistance = distance3D(thumbTip, pinkyTip);
+  update(distance: number, timeMs: number, config: PinchConfig, thresholds: PinchThresholds = config.thresholds): PinchState {
+    const events: PinchEvent[] = [];
 
-  const palmPosition = landmarkToVector3(wrist);
-  const palmRotation = computePalmRotation(landmarks);
+    if (this.phase === 'open') {
+      if (distance < thresholds.press) {
+        this.phase = 'pending';
+        this.phaseStart = timeMs;
+      }
+    } else if (this.phase === 'pending') {
+      // Press time counts from first contact, but the fingers must still be
+      // together once it has passed: at a low frame rate a one-frame dip
+      // followed by a slow frame would otherwise outlast it and tap
+      if (distance > thresholds.release) {
+        this.phase = 'open';
+      } else if (timeMs - this.phaseStart >= config.minPressMs) {
+        this.phase = 'pressed';
+      }
+    }
 
-  return {
-    indexThumbPinch: indexThumbDistance < PINCH_THRESHOLD,
-    middleThumbPinch: middleThumbDistance < PINCH_THRESHOLD,
-    ringThumbPinch: ringThumbDistance < PINCH_THRESHOLD,
-    pinkyThumbPinch: pinkyThumbDistance < PINCH_THRESHOLD,
-    palmPosition,
-    palmRotation,
-  };
+    if (this.phase === 'pressed') {
+      if (distance > thresholds.release) {
+        if (!this.held) {
+          if (timeMs - this.lastTapTime <= config.doubleTapMs) {
+            events.push('doubleTap');
+            this.lastTapTime = -Infinity;
+          } else {
+            events.push('tap');
+            this.lastTapTime = timeMs;
+          }
+        }
+        events.push('release');
+        this.phase = 'open';
+        this.held = false;
+      } else if (!this.held && timeMs - this.phaseStart >= config.holdMs) {
+        this.held = true;
+        events.push('hold');
+      }
+    }
+
+    return { distance, active: this.phase === 'pressed', held: this.held, events };
+  }
+
+  reset(): void {
+    this.phase = 'open';
+    this.held = false;
+    this.lastTapTime = -Infinity;
+  }
 }
 
-export function processHandGestures(
-  leftHand: NormalizedLandmarkList | null,
-  rightHand: NormalizedLandmarkList | null
-): HandGestures {
+// Command ids bound to each pinch event, per finger
+export type PinchEventBindings = Partial<Record<PinchFinger, Partial<Record<PinchEvent, string>>>>;
+
+// The commands a hand's pinch events trigger this frame, in finger order.
+// Releases and 'none' trigger nothing.
+export function pinchEventCommands(bindings: PinchEventBindings, gesture: GestureState): string[] {
+  const commands: string[] = [];
+  PINCH_FINGERS.forEach((finger) => {
+    gesture.pinches[finger].events.forEach((event) => {
+      const command = event === 'release' ? undefined : bindings[finger]?.[event];
+      if (command && command !== 'none') commands.push(command);
+    });
+  });
+  return commands;
+}
+
+type HandPinchMachines = Record<PinchFinger, PinchStateMachine>;
+
+function createPinchMachines(): HandPinchMachines {
   return {
-    left: leftHand ? analyzeGestures(leftHand) : null,
-    right: rightHand ? analyzeGestures(rightHand) : null,
+    index: new PinchStateMachine(),
+    middle: new PinchStateMachine(),
+    ring: new PinchStateMachine(),
+    pinky: new PinchStateMachine(),
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Turns per-frame landmarks into gesture state. Stateful: feed it every
+ * frame in order, since taps and holds depend on what came before.
+ */
+export class GestureProcessor {
+  private config: PinchConfig;
+  private machines = { left: createPinchMachines(), right: createPinchMachines() };
+
+  constructor(config: PinchConfig = DEFAULT_PINCH_CONFIG) {
+    this.config = config;
+  }
+
+  setConfig(config: PinchConfig): void {
+    this.config = config;
+  }
+
+  process(
+    leftHand: NormalizedLandmarkList | null,
+    rightHand: NormalizedLandmarkList | null,
+    timeMs: number
+  ): HandGestures {
+    return {
+      left: this.analyzeHand(leftHand, 'left', timeMs),
+      right: this.analyzeHand(rightHand, 'right', timeMs),
+      timestamp: timeMs,
+    };
+  }
+
+  private analyzeHand(
+    landmarks: NormalizedLandmarkList | null,
+    side: 'left' | 'right',
+    timeMs: number
+  ): GestureState | null {
+    const machines = this.machines[side];
+    if (!landmarks) {
+      // A hand that leaves the frame starts fresh when it comes back
+      PINCH_FINGERS.forEach((finger) => machines[finger].reset());
+      return null;
+    }
+
+    const thumbTip = landmarks[THUMB_TIP];
+    const palmSize = Math.max(distance3D(landmarks[WRIST], landmarks[MIDDLE_MCP]), 1e-6);
+    const pinches = {} as Record<PinchFinger, PinchState>;
+    PINCH_FINGERS.forEach((finger) => {
+      const distance = distance3D(thumbTip, landmarks[FINGER_TIPS[finger]]) / palmSize;
+      const thresholds = this.config.fingers?.[finger] ?? this.config.thresholds;
+      pinches[finger] = machines[finger].update(distance, timeMs, this.config, thresholds);
+    });
+
+    return {
+      pinches,
+      palmPosition: landmarkToVector3(landmarks[WRIST]),
+      palmRotation: computePalmRotation(landmarks),
+      palmScale: Math.hypot(landmarks[MIDDLE_MCP].x - landmarks[WRIST].x, landmarks[MIDDLE_MCP].y - landmarks[WRIST].y),
+      indexTip: landmarkToVector3(landmarks[FINGER_TIPS.index]),
+      pointingDirection: computePointingDirection(landmarks),
+      poseFeatures: normalizePose(landmarks, side),
+    };
+  }
+
+  reset(): void {
+    PINCH_FINGERS.forEach((finger) => {
+      this.machines.left[finger].reset();
+      this.machines.right[finger].reset();
+    });
+  }
+}
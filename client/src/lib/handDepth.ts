@@ -0,0 +1,44 @@
+import type { GestureState } from './gestureRecognition';
+
+// Voxel layers per unit of log palm scale: bringing the hand a quarter
+// closer to the camera (scale x1.33, log 0.29) reaches about two layers in
+const LAYERS_PER_LOG_SCALE = 7;
+// The layer only changes once the estimate is this far past the halfway
+// point between layers, so a hand resting there doesn't flicker
+const LAYER_HYSTERESIS = 0.2;
+const MAX_LAYER = 32;
+
+/**
+ * Turns how close the hand is to the camera into a layer count for the
+ * depth cursor. Depth is relative to where the hand was when it came into
+ * view, so every session starts on the front surface. The cue is the log of
+ * the apparent palm size plus the wrist's own depth; MediaPipe measures
+ * depth from the wrist, so with it the wrist term is zero and scale alone
+ * drives the cursor, while trackers with absolute depth contribute both.
+ */
+export class HandDepthEstimator {
+  private baseline: number | null = null;
+  private layer = 0;
+
+  update(hand: GestureState | null): number {
+    if (!hand) {
+      this.reset();
+      return 0;
+    }
+
+    const cue = Math.log(Math.max(hand.palmScale, 1e-6)) + hand.palmPosition.z;
+    // Pulling back past the starting point moves the baseline with the hand
+    if (this.baseline === null || cue < this.baseline) this.baseline = cue;
+
+    const estimate = (cue - this.baseline) * LAYERS_PER_LOG_SCALE;
+    if (Math.abs(estimate - this.layer) > 0.5 + LAYER_HYSTERESIS) {
+      this.layer = Math.min(MAX_LAYER, Math.max(0, Math.round(estimate)));
+    }
+    return this.layer;
+  }
+
+  reset(): void {
+    this.baseline = null;
+    this.layer = 0;
+  }
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { HandRecorder, parseRecording, replayRecording, type HandRecording } from './handRecording';
+import {
+  DEFAULT_PINCH_CONFIG,
+  GestureProcessor,
+  pinchEventCommands,
+  type PinchEventBindings,
+} from './gestureRecognition';
+import { DEFAULT_SMOOTHING, LandmarkSmoother } from './oneEuroFilter';
+
+// Scripted right hand with per-frame jitter, 30 fps: an index tap, a
+// double tap on the pinky, a long middle pinch and a ring tap
+const recording = parseRecording(
+  readFileSync(new URL('./__fixtures__/pinch-session.json', import.meta.url), 'utf8')
+);
+
+// The builder's default right-hand bindings
+const BINDINGS: PinchEventBindings = {
+  index: { tap: 'place', hold: 'paint' },
+  middle: { tap: 'delete', hold: 'erase' },
+  ring: { tap: 'cycleFace' },
+  pinky: { tap: 'selectToggle', doubleTap: 'selectConnected' },
+};
+
+// Runs a recording through the live pipeline: smoothing, then pinch detection
+function replayCommands(source: HandRecording): string[] {
+  const smoother = new LandmarkSmoother(DEFAULT_SMOOTHING);
+  const processor = new GestureProcessor(DEFAULT_PINCH_CONFIG);
+  const commands: string[] = [];
+  replayRecording(source, (raw) => {
+    const result = smoother.smooth(raw);
+    const gestures = processor.process(result.leftHand, result.rightHand, result.timestamp);
+    if (gestures.right) commands.push(...pinchEventCommands(BINDINGS, gestures.right));
+  });
+  return commands;
+}
+
+test('replaying a recorded session dispatches the commands it was recorded with', () => {
+  assert.deepEqual(replayCommands(recording), ['place', 'selectToggle', 'selectConnected', 'erase', 'cycleFace']);
+});
+
+test('replay timing comes from the recording, not the wall clock', () => {
+  assert.deepEqual(replayCommands(recording), replayCommands(recording));
+
+  // At double speed the middle pinch ends before the hold time and taps
+  // instead, and the pinky taps merge into one
+  const fast = { ...recording, frames: recording.frames.map((frame) => ({ ...frame, t: frame.t / 2 })) };
+  assert.deepEqual(replayCommands(fast), ['place', 'selectToggle', 'delete', 'cycleFace']);
+});
+
+test('the recorder stores frame times relative to the first captured frame', () => {
+  const recorder = new HandRecorder();
+  recorder.start();
+  recording.frames.slice(0, 3).forEach((frame) => {
+    recorder.capture({ leftHand: frame.leftHand, rightHand: frame.rightHand, timestamp: 5000 + frame.t });
+  });
+  const captured = recorder.stop();
+  assert.deepEqual(captured?.frames.map((frame) => frame.t), recording.frames.slice(0, 3).map((frame) => frame.t));
+});
@@ -0,0 +1,185 @@
+import { NormalizedLandmarkList } from '@mediapipe/hands';
+import { z } from 'zod';
+import type { HandTracker, HandTrackingCallback, HandTrackingResult } from './handTracking';
+
+export const RECORDING_FORMAT = 'voxelcraft-hand-recording';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  // Milliseconds since the recording started
+  t: number;
+  leftHand: NormalizedLandmarkList | null;
+  rightHand: NormalizedLandmarkList | null;
+}
+
+export interface HandRecording {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  recordedAt: string;
+  frames: RecordedFrame[];
+}
+
+const landmarkSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  visibility: z.number().optional(),
+});
+
+// One hand's landmarks as they appear in recordings and streamed frames
+export const handLandmarksSchema = z.array(landmarkSchema).length(21).nullable();
+
+const recordingSchema = z.object({
+  format: z.literal(RECORDING_FORMAT),
+  version: z.literal(RECORDING_VERSION),
+  recordedAt: z.string(),
+  frames: z.array(z.object({ t: z.number().min(0), leftHand: handLandmarksSchema, rightHand: handLandmarksSchema })),
+});
+
+function copyHand(hand: NormalizedLandmarkList | null): NormalizedLandmarkList | null {
+  return hand ? hand.map(({ x, y, z }) => ({ x, y, z })) : null;
+}
+
+export class HandRecorder {
+  private frames: RecordedFrame[] = [];
+  private recording = false;
+  // Timestamp of the first captured frame, which becomes t = 0
+  private startTime: number | null = null;
+  private recordedAt = '';
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  start(): void {
+    this.frames = [];
+    this.recording = true;
+    this.startTime = null;
+    this.recordedAt = new Date().toISOString();
+  }
+
+  capture(result: HandTrackingResult): void {
+    if (!this.recording) return;
+    this.startTime ??= result.timestamp;
+    this.frames.push({
+      t: Math.max(0, Math.round(result.timestamp - this.startTime)),
+      leftHand: copyHand(result.leftHand),
+      rightHand: copyHand(result.rightHand),
+    });
+  }
+
+  stop(): HandRecording | null {
+    if (!this.recording) return null;
+    this.recording = false;
+    this.startTime = null;
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      frames: this.frames,
+    };
+  }
+}
+
+export function serializeRecording(recording: HandRecording): string {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(text: string): HandRecording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The recording is not valid JSON');
+  }
+  const parsed = recordingSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid hand recording: ${parsed.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+  return parsed.data as HandRecording;
+}
+
+// Feeds every frame through the callback synchronously, in order, stamped
+// with its recorded time. Lets gesture flows be exercised deterministically
+// without a camera or timers.
+export function replayRecording(recording: HandRecording, callback: HandTrackingCallback): void {
+  recording.frames.forEach((frame) => {
+    callback({ leftHand: frame.leftHand, rightHand: frame.rightHand, timestamp: frame.t });
+  });
+}
+
+export interface PlaybackOptions {
+  loop?: boolean;
+  onEnded?: () => void;
+}
+
+/**
+ * Plays a recording back in real time through the same callback shape as
+ * the camera tracker. Frames are stamped with their recorded times, offset
+ * to when playback started, so timing doesn't depend on timer jitter.
+ */
+export class PlaybackHandTracker implements HandTracker {
+  private recording: HandRecording;
+  private options: PlaybackOptions;
+  private callback: HandTrackingCallback | null = null;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private frameIndex = 0;
+  private startTime = 0;
+  private isRunning = false;
+
+  constructor(recording: HandRecording, options: PlaybackOptions = {}) {
+    this.recording = recording;
+    this.options = options;
+  }
+
+  async initialize(_videoElement: HTMLVideoElement | null, callback: HandTrackingCallback): Promise<void> {
+    this.callback = callback;
+  }
+
+  start(): void {
+    if (this.isRunning || this.recording.frames.length === 0) return;
+    this.isRunning = true;
+    this.frameIndex = 0;
+    this.startTime = performance.now();
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    if (!this.isRunning) return;
+
+    const frame = this.recording.frames[this.frameIndex];
+    if (!frame) {
+      if (this.options.loop) {
+        this.frameIndex = 0;
+        this.startTime = performance.now();
+        this.scheduleNext();
+        return;
+      }
+      this.isRunning = false;
+      const last = this.recording.frames[this.recording.frames.length - 1];
+      this.callback?.({ leftHand: null, rightHand: null, timestamp: this.startTime + last.t });
+      this.options.onEnded?.();
+      return;
+    }
+
+    const delay = Math.max(0, frame.t - (performance.now() - this.startTime));
+    this.timerId = setTimeout(() => {
+      this.callback?.({ leftHand: frame.leftHand, rightHand: frame.rightHand, timestamp: this.startTime + frame.t });
+      this.frameIndex += 1;
+      this.scheduleNext();
+    }, delay);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  destroy(): void {
+    this.stop();
+    this.callback = null;
+  }
+}
@@ -9,24 +9,87 @@ export interface HandLandmarks {
 export interface HandTrackingResult {
   leftHand: NormalizedLandmarkList | null;
   rightHand: NormalizedLandmarkList | null;
+  // Milliseconds on the tracker's clock: when the camera frame was taken,
+  // or the recorded frame time on replay. Smoothing and pinch timing read
+  // this rather than the wall clock, so a replay times out as recorded.
+  timestamp: number;
   rawResults?: Results;
 }
 
 export type HandTrackingCallback = (result: HandTrackingResult) => void;
 
-export class HandTracker {
+export type HandTrackerErrorKind = 'assets' | 'camera' | 'backend';
+
+export class HandTrackerError extends Error {
+  readonly kind: HandTrackerErrorKind;
+
+  constructor(kind: HandTrackerErrorKind, message: string) {
+    super(message);
+    this.name = 'HandTrackerError';
+    this.kind = kind;
+  }
+}
+
+// Model files are served next to the app by default (see vite-plugin-mediapipe-assets);
+// VITE_MEDIAPIPE_ASSET_BASE points elsewhere, e.g. the Express server or a CDN
+export function getMediaPipeAssetBase(): string {
+  const base = import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe/hands/`;
+  return base.endsWith('/') ? base : `${base}/`;
+}
+
+/**
+ * A source of hand landmarks. `useHandTracking` only talks to this
+ * interface, so the camera pipeline can be swapped for recorded, scripted
+ * or externally streamed landmarks.
+ */
+export interface HandTracker {
+  initialize(videoElement: HTMLVideoElement | null, callback: HandTrackingCallback): Promise<void>;
+  start(): void;
+  stop(): void;
+  destroy(): void;
+}
+
+export class MediaPipeHandTracker implements HandTracker {
   private hands: Hands | null = null;
   private camera: Camera | null = null;
   private callback: HandTrackingCallback | null = null;
   private isRunning = false;
+  private assetBase: string;
+  // When the frame being processed was grabbed from the video
+  private frameTime = 0;
+
+  constructor(assetBase: string = getMediaPipeAssetBase()) {
+    this.assetBase = assetBase;
+  }
+
+  // The wasm loader can hang rather than reject on a 404, so probe a small file first
+  private async checkAssets(): Promise<void> {
+    const message = `Hand tracking model files could not be loaded from ${this.assetBase}`;
+    try {
+      const response = await fetch(`${this.assetBase}hands.binarypb`, { method: 'HEAD' });
+      if (!response.ok) {
+        throw new HandTrackerError('assets', `${message} (HTTP ${response.status})`);
+      }
+      // SPA fallbacks answer unknown paths with index.html
+      if (response.headers.get('Content-Type')?.includes('text/html')) {
+        throw new HandTrackerError('assets', message);
+      }
+    } catch (err) {
+      if (err instanceof HandTrackerError) throw err;
+      throw new HandTrackerError('assets', message);
+    }
+  }
 
-  async initialize(videoElement: HTMLVideoElement, callback: HandTrackingCallback): Promise<void> {
+  async initialize(videoElement: HTMLVideoElement | null, callback: HandTrackingCallback): Promise<void> {
+    if (!videoElement) {
+      throw new HandTrackerError('camera', 'The MediaPipe tracker needs a video element');
+    }
     this.callback = callback;
 
+    await this.checkAssets();
+
     this.hands = new Hands({
-      locateFile: (file) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      },
+      locateFile: (file) => `${this.assetBase}${file}`,
     });
 
     this.hands.setOptions({
@@ -40,11 +103,17 @@ export class HandTracker {
       this.processResults(results);
     });
 
-    await this.hands.initialize();
+    try {
+      await this.hands.initialize();
+    } catch (err) {
+      console.error('MediaPipe Hands failed to initialize:', err);
+      throw new HandTrackerError('assets', `The hand tracking model failed to load from ${this.assetBase}`);
+    }
 
     this.camera = new Camera(videoElement, {
       onFrame: async () => {
         if (this.hands && this.isRunning) {
+          this.frameTime = performance.now();
           await this.hands.send({ image: videoElement });
         }
       },
@@ -72,7 +141,7 @@ export class HandTracker {
       }
     }
 
-    this.callback({ leftHand, rightHand, rawResults: results });
+    this.callback({ leftHand, rightHand, timestamp: this.frameTime, rawResults: results });
   }
 
   start(): void {
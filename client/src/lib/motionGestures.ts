@@ -0,0 +1,272 @@
+import type { GestureState } from './gestureRecognition';
+
+export const BUILTIN_MOTION_GESTURES = [
+  'swipeLeft',
+  'swipeRight',
+  'swipeUp',
+  'swipeDown',
+  'circle',
+  'shake',
+] as const;
+
+export type BuiltinMotionGesture = typeof BUILTIN_MOTION_GESTURES[number];
+
+// A stroke as [x, y] pairs in palm-position space (x right, y up)
+export type StrokePoints = [number, number][];
+
+export interface MotionTemplate {
+  name: string;
+  points: StrokePoints;
+}
+
+export interface MotionMatch {
+  name: string;
+  // 1 for a perfect match, falling towards 0 as the stroke diverges
+  score: number;
+}
+
+// Points per normalized stroke
+const RESAMPLE_COUNT = 32;
+const MIN_SCORE = 0.78;
+
+// Palm speeds, in palm-position units (the frame spans 2) per second
+const START_SPEED = 1.2;
+const STOP_SPEED = 0.5;
+// A stroke ends once the palm has been slow for this long, which lets a
+// shake change direction without splitting into separate strokes
+const STILL_MS = 150;
+const MAX_STROKE_MS = 1500;
+const MIN_PATH_LENGTH = 0.4;
+// Shakes are recognized by counting horizontal direction changes of at least
+// SHAKE_LEG, since their shape depends on where in the swing they start
+const SHAKE_LEG = 0.15;
+const SHAKE_REVERSALS = 3;
+const CIRCLE_START_ANGLES = 12;
+// Ignore movement for a moment after a gesture fires so the hand can return
+const COOLDOWN_MS = 400;
+
+type Point = { x: number; y: number };
+
+function pathLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+function resample(points: Point[], count: number): Point[] {
+  const interval = pathLength(points) / (count - 1);
+  if (interval === 0) return Array.from({ length: count }, () => ({ ...points[0] }));
+
+  const source = points.map((p) => ({ ...p }));
+  const result: Point[] = [{ ...source[0] }];
+  let carried = 0;
+  for (let i = 1; i < source.length; i++) {
+    const prev = source[i - 1];
+    const curr = source[i];
+    const segment = Math.hypot(curr.x - prev.x, curr.y - prev.y);
+    if (carried + segment >= interval && segment > 0) {
+      const t = (interval - carried) / segment;
+      const point = { x: prev.x + t * (curr.x - prev.x), y: prev.y + t * (curr.y - prev.y) };
+      result.push(point);
+      // Continue measuring from the inserted point
+      source.splice(i, 0, point);
+      carried = 0;
+    } else {
+      carried += segment;
+    }
+  }
+  while (result.length < count) result.push({ ...source[source.length - 1] });
+  return result.slice(0, count);
+}
+
+/**
+ * Resamples a stroke to evenly spaced points, centres it on its centroid and
+ * scales it uniformly to a unit box. Unlike the classic $1 recognizer there
+ * is no rotation step: direction is what tells a left swipe from a right one.
+ */
+export function normalizeStroke(points: StrokePoints): StrokePoints {
+  const resampled = resample(points.map(([x, y]) => ({ x, y })), RESAMPLE_COUNT);
+
+  const xs = resampled.map((p) => p.x);
+  const ys = resampled.map((p) => p.y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+  const cx = xs.reduce((a, b) => a + b, 0) / resampled.length;
+  const cy = ys.reduce((a, b) => a + b, 0) / resampled.length;
+
+  return resampled.map((p) => [(p.x - cx) / size, (p.y - cy) / size]);
+}
+
+function strokeDistance(a: StrokePoints, b: StrokePoints): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.hypot(a[i][0] - b[i][0], a[i][1] - b[i][1]);
+  }
+  return total / a.length;
+}
+
+function line(fromX: number, fromY: number, toX: number, toY: number): StrokePoints {
+  return [[fromX, fromY], [toX, toY]];
+}
+
+function arc(startAngle: number, direction: 1 | -1): StrokePoints {
+  const points: StrokePoints = [];
+  for (let i = 0; i <= 36; i++) {
+    const angle = startAngle + direction * (i / 36) * Math.PI * 2;
+    points.push([Math.cos(angle), Math.sin(angle)]);
+  }
+  return points;
+}
+
+function buildBuiltinTemplates(): MotionTemplate[] {
+  const templates: MotionTemplate[] = [
+    { name: 'swipeLeft', points: line(1, 0, -1, 0) },
+    { name: 'swipeRight', points: line(-1, 0, 1, 0) },
+    { name: 'swipeUp', points: line(0, -1, 0, 1) },
+    { name: 'swipeDown', points: line(0, 1, 0, -1) },
+  ];
+  // Circles may start anywhere and go either way round
+  for (let step = 0; step < CIRCLE_START_ANGLES; step++) {
+    const startAngle = (step / CIRCLE_START_ANGLES) * Math.PI * 2;
+    templates.push({ name: 'circle', points: arc(startAngle, 1) });
+    templates.push({ name: 'circle', points: arc(startAngle, -1) });
+  }
+  return templates.map((template) => ({ ...template, points: normalizeStroke(template.points) }));
+}
+
+export const BUILTIN_MOTION_TEMPLATES: MotionTemplate[] = buildBuiltinTemplates();
+
+function isShake(points: StrokePoints): boolean {
+  const ys = points.map(([, y]) => y);
+  const xs = points.map(([x]) => x);
+  if (Math.max(...ys) - Math.min(...ys) > Math.max(...xs) - Math.min(...xs)) return false;
+
+  let reversals = 0;
+  let direction = 0;
+  // Furthest point reached in the current direction
+  let extreme = xs[0];
+  for (const x of xs) {
+    if (direction === 0) {
+      if (Math.abs(x - extreme) >= SHAKE_LEG) {
+        direction = Math.sign(x - extreme);
+        extreme = x;
+      }
+    } else if ((x - extreme) * direction > 0) {
+      extreme = x;
+    } else if (Math.abs(x - extreme) >= SHAKE_LEG) {
+      reversals++;
+      direction = -direction;
+      extreme = x;
+    }
+  }
+  return reversals >= SHAKE_REVERSALS;
+}
+
+/**
+ * Compares a stroke against every template and returns the closest one, or
+ * null when nothing is close enough. Templates must already be normalized.
+ */
+export function matchStroke(points: StrokePoints, templates: MotionTemplate[]): MotionMatch | null {
+  if (isShake(points)) return { name: 'shake', score: 1 };
+  if (templates.length === 0) return null;
+  const candidate = normalizeStroke(points);
+
+  let best: MotionMatch | null = null;
+  for (const template of templates) {
+    // A stroke filling its unit box is at most about sqrt(2)/2 from any point
+    const score = 1 - strokeDistance(candidate, template.points) / (0.5 * Math.SQRT2);
+    if (!best || score > best.score) best = { name: template.name, score };
+  }
+  return best && best.score >= MIN_SCORE ? best : null;
+}
+
+/**
+ * Splits a stream of palm positions into strokes: a stroke starts when the
+ * palm moves faster than START_SPEED and ends when it has been slow for
+ * STILL_MS, or after MAX_STROKE_MS. Short strokes are dropped.
+ */
+export class StrokeSegmenter {
+  private stroke: { points: StrokePoints; startTime: number; slowSince: number | null } | null = null;
+  private last: { x: number; y: number; time: number } | null = null;
+
+  update(position: { x: number; y: number } | null, timeMs: number): StrokePoints | null {
+    if (!position) {
+      this.reset();
+      return null;
+    }
+
+    const last = this.last;
+    this.last = { x: position.x, y: position.y, time: timeMs };
+    if (!last || timeMs <= last.time) return null;
+
+    const speed = Math.hypot(position.x - last.x, position.y - last.y) / ((timeMs - last.time) / 1000);
+
+    if (!this.stroke) {
+      if (speed >= START_SPEED) {
+        this.stroke = { points: [[last.x, last.y], [position.x, position.y]], startTime: last.time, slowSince: null };
+      }
+      return null;
+    }
+
+    const stroke = this.stroke;
+    stroke.points.push([position.x, position.y]);
+    if (speed < STOP_SPEED) {
+      stroke.slowSince ??= timeMs;
+    } else {
+      stroke.slowSince = null;
+    }
+
+    const settled = stroke.slowSince !== null && timeMs - stroke.slowSince >= STILL_MS;
+    if (!settled && timeMs - stroke.startTime < MAX_STROKE_MS) return null;
+
+    this.stroke = null;
+    const points = stroke.points;
+    const length = pathLength(points.map(([x, y]) => ({ x, y })));
+    return length >= MIN_PATH_LENGTH ? points : null;
+  }
+
+  reset(): void {
+    this.stroke = null;
+    this.last = null;
+  }
+}
+
+/**
+ * Recognizes swipes, circles, shakes and user-recorded motions from one
+ * hand's palm trajectory. Motion made while any finger is pinched belongs to
+ * rotation or building, so it never counts as a gesture.
+ */
+export class MotionGestureRecognizer {
+  private segmenter = new StrokeSegmenter();
+  private templates: MotionTemplate[];
+  private cooldownUntil = 0;
+
+  constructor(templates: MotionTemplate[] = BUILTIN_MOTION_TEMPLATES) {
+    this.templates = templates;
+  }
+
+  setTemplates(templates: MotionTemplate[]): void {
+    this.templates = templates;
+  }
+
+  update(hand: GestureState | null, timeMs: number): MotionMatch | null {
+    const pinching = hand !== null && Object.values(hand.pinches).some((pinch) => pinch.active);
+    if (!hand || pinching || timeMs < this.cooldownUntil) {
+      this.segmenter.reset();
+      return null;
+    }
+
+    const stroke = this.segmenter.update(hand.palmPosition, timeMs);
+    if (!stroke) return null;
+
+    const match = matchStroke(stroke, this.templates);
+    if (match) this.cooldownUntil = timeMs + COOLDOWN_MS;
+    return match;
+  }
+
+  reset(): void {
+    this.segmenter.reset();
+    this.cooldownUntil = 0;
+  }
+}
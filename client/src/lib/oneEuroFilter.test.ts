@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { NormalizedLandmarkList } from '@mediapipe/hands';
+import { DEFAULT_SMOOTHING, LandmarkSmoother, OneEuroFilter, smoothRecording } from './oneEuroFilter';
+import { parseRecording } from './handRecording';
+
+const FRAME_MS = 1000 / 30;
+
+// Deterministic noise in [-0.5, 0.5)
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+// Frame-to-frame wrist movement, i.e. how much a still hand appears to shake
+function wristJitter(frames: { rightHand: NormalizedLandmarkList | null }[]): number {
+  const xs = frames.map((frame) => frame.rightHand![0].x);
+  return standardDeviation(xs.slice(1).map((x, i) => x - xs[i]));
+}
+
+test('a stationary signal loses most of its jitter', () => {
+  const filter = new OneEuroFilter(DEFAULT_SMOOTHING.minCutoff, DEFAULT_SMOOTHING.beta);
+  const random = noise(7);
+  const input: number[] = [];
+  const output: number[] = [];
+  for (let i = 0; i < 90; i++) {
+    const value = 0.5 + random() * 0.01;
+    input.push(value);
+    output.push(filter.filter(value, i * FRAME_MS));
+  }
+  // Skip the first second while the filter settles
+  assert.ok(standardDeviation(output.slice(30)) < standardDeviation(input.slice(30)) * 0.5);
+});
+
+test('a moving signal is followed with little lag', () => {
+  // Half the image width per second, a brisk hand movement
+  const lagAfterTwoSeconds = (beta: number) => {
+    const filter = new OneEuroFilter(DEFAULT_SMOOTHING.minCutoff, beta);
+    let lag = 0;
+    for (let i = 0; i < 60; i++) {
+      const t = i * FRAME_MS;
+      const value = (0.5 * t) / 1000;
+      lag = value - filter.filter(value, t);
+    }
+    return lag;
+  };
+
+  // Under 20 ms behind, where a fixed low-pass filter trails by over 100 ms
+  assert.ok(lagAfterTwoSeconds(DEFAULT_SMOOTHING.beta) < 0.01);
+  assert.ok(lagAfterTwoSeconds(0) > 0.05);
+});
+
+test('repeated timestamps leave the output unchanged', () => {
+  const filter = new OneEuroFilter(1, 0);
+  filter.filter(0, 0);
+  const value = filter.filter(1, 100);
+  assert.equal(filter.filter(5, 100), value);
+});
+
+test('a hand that reappears starts from where it is seen', () => {
+  const hand = (x: number) => Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0 }));
+  const smoother = new LandmarkSmoother(DEFAULT_SMOOTHING);
+  smoother.smooth({ leftHand: null, rightHand: hand(0.2), timestamp: 0 });
+  smoother.smooth({ leftHand: null, rightHand: null, timestamp: FRAME_MS });
+  const result = smoother.smooth({ leftHand: null, rightHand: hand(0.8), timestamp: 2 * FRAME_MS });
+  assert.equal(result.rightHand?.[0].x, 0.8);
+});
+
+test('disabled smoothing passes landmarks through', () => {
+  const smoother = new LandmarkSmoother({ ...DEFAULT_SMOOTHING, enabled: false });
+  const input = { leftHand: null, rightHand: [{ x: 0.1, y: 0.2, z: 0 }], timestamp: 0 };
+  assert.equal(smoother.smooth(input), input);
+});
+
+test('smoothing a recorded stream reduces its jitter and keeps frame times', () => {
+  const recording = parseRecording(
+    readFileSync(new URL('./__fixtures__/pinch-session.json', import.meta.url), 'utf8')
+  );
+  const smoothed = smoothRecording(recording);
+
+  assert.deepEqual(smoothed.frames.map((frame) => frame.t), recording.frames.map((frame) => frame.t));
+  // The hand holds still for the first 300 ms
+  const still = (frames: typeof recording.frames) => frames.filter((frame) => frame.t < 300);
+  assert.ok(wristJitter(still(smoothed.frames)) < wristJitter(still(recording.frames)) * 0.5);
+});
@@ -0,0 +1,163 @@
+import { NormalizedLandmarkList } from '@mediapipe/hands';
+import type { HandTrackingResult } from './handTracking';
+import type { HandRecording } from './handRecording';
+
+export interface SmoothingConfig {
+  enabled: boolean;
+  // Cutoff frequency (Hz) when the hand is still; lower removes more jitter
+  minCutoff: number;
+  // How quickly the cutoff rises with speed; higher reduces lag on fast moves
+  beta: number;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  enabled: true,
+  minCutoff: 1.5,
+  beta: 10,
+};
+
+const DERIVATIVE_CUTOFF = 1.0;
+
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff
+ * adapts to the signal's speed, trading jitter at rest for low lag in motion.
+ */
+export class OneEuroFilter {
+  private minCutoff: number;
+  private beta: number;
+  private lastValue: number | null = null;
+  private lastDerivative = 0;
+  private lastTime = 0;
+
+  constructor(minCutoff: number, beta: number) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+  }
+
+  setParameters(minCutoff: number, beta: number): void {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+  }
+
+  filter(value: number, timeMs: number): number {
+    if (this.lastValue === null) {
+      this.lastValue = value;
+      this.lastTime = timeMs;
+      return value;
+    }
+
+    const dt = (timeMs - this.lastTime) / 1000;
+    // Duplicate or out-of-order timestamps carry no new information
+    if (dt <= 0) return this.lastValue;
+
+    const derivative = (value - this.lastValue) / dt;
+    const derivativeAlpha = smoothingFactor(DERIVATIVE_CUTOFF, dt);
+    this.lastDerivative += derivativeAlpha * (derivative - this.lastDerivative);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.lastDerivative);
+    this.lastValue += smoothingFactor(cutoff, dt) * (value - this.lastValue);
+    this.lastTime = timeMs;
+    return this.lastValue;
+  }
+
+  reset(): void {
+    this.lastValue = null;
+    this.lastDerivative = 0;
+  }
+}
+
+class HandFilter {
+  // One filter per axis for each landmark
+  private filters: [OneEuroFilter, OneEuroFilter, OneEuroFilter][] = [];
+
+  smooth(landmarks: NormalizedLandmarkList, timeMs: number, config: SmoothingConfig): NormalizedLandmarkList {
+    return landmarks.map((landmark, i) => {
+      if (!this.filters[i]) {
+        this.filters[i] = [
+          new OneEuroFilter(config.minCutoff, config.beta),
+          new OneEuroFilter(config.minCutoff, config.beta),
+          new OneEuroFilter(config.minCutoff, config.beta),
+        ];
+      }
+      const [fx, fy, fz] = this.filters[i];
+      fx.setParameters(config.minCutoff, config.beta);
+      fy.setParameters(config.minCutoff, config.beta);
+      fz.setParameters(config.minCutoff, config.beta);
+      return {
+        ...landmark,
+        x: fx.filter(landmark.x, timeMs),
+        y: fy.filter(landmark.y, timeMs),
+        z: fz.filter(landmark.z, timeMs),
+      };
+    });
+  }
+
+  reset(): void {
+    this.filters.forEach((axes) => axes.forEach((filter) => filter.reset()));
+  }
+}
+
+/**
+ * Smooths every landmark of both hands. A hand that drops out of view
+ * starts fresh when it reappears instead of gliding in from its last spot.
+ */
+export class LandmarkSmoother {
+  private config: SmoothingConfig;
+  private left = new HandFilter();
+  private right = new HandFilter();
+
+  constructor(config: SmoothingConfig = DEFAULT_SMOOTHING) {
+    this.config = config;
+  }
+
+  setConfig(config: SmoothingConfig): void {
+    this.config = config;
+    // Stale state would make the first frames after re-enabling lag behind
+    if (!config.enabled) this.reset();
+  }
+
+  // Timed by the result's own timestamp, so recorded streams smooth exactly
+  // as they did live
+  smooth(result: HandTrackingResult): HandTrackingResult {
+    if (!this.config.enabled) return result;
+    return {
+      ...result,
+      leftHand: this.smoothHand(this.left, result.leftHand, result.timestamp),
+      rightHand: this.smoothHand(this.right, result.rightHand, result.timestamp),
+    };
+  }
+
+  private smoothHand(
+    filter: HandFilter,
+    landmarks: NormalizedLandmarkList | null,
+    timeMs: number
+  ): NormalizedLandmarkList | null {
+    if (!landmarks) {
+      filter.reset();
+      return null;
+    }
+    return filter.smooth(landmarks, timeMs, this.config);
+  }
+
+  reset(): void {
+    this.left.reset();
+    this.right.reset();
+  }
+}
+
+// Applies the same smoothing as live tracking to a recorded stream
+export function smoothRecording(recording: HandRecording, config: SmoothingConfig = DEFAULT_SMOOTHING): HandRecording {
+  const smoother = new LandmarkSmoother(config);
+  return {
+    ...recording,
+    frames: recording.frames.map((frame) => {
+      const { leftHand, rightHand } = smoother.smooth({ ...frame, timestamp: frame.t });
+      return { t: frame.t, leftHand, rightHand };
+    }),
+  };
+}
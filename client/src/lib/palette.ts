@@ -0,0 +1,33 @@
+export const DEFAULT_PALETTE: string[] = [
+  '#00ffff',
+  '#ff00ff',
+  '#ffd400',
+  '#39ff14',
+  '#ff4d4d',
+  '#4d79ff',
+  '#ffffff',
+  '#6b7280',
+];
+
+// MagicaVoxel-style palettes top out at 255 usable entries
+export const MAX_PALETTE_SIZE = 255;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+export function normalizePalette(colors: unknown): string[] {
+  if (!Array.isArray(colors)) return [...DEFAULT_PALETTE];
+  const valid = colors
+    .filter(isHexColor)
+    .map((color) => color.toLowerCase())
+    .slice(0, MAX_PALETTE_SIZE);
+  return valid.length > 0 ? valid : [...DEFAULT_PALETTE];
+}
+
+export function clampColorIndex(index: number, palette: string[]): number {
+  if (!Number.isInteger(index) || index < 0 || index >= palette.length) return 0;
+  return index;
+}
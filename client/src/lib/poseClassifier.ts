@@ -0,0 +1,145 @@
+import { NormalizedLandmarkList } from '@mediapipe/hands';
+import * as THREE from 'three';
+import type { GestureState } from './gestureRecognition';
+
+// Suggested poses offered by the trainer; users may add their own labels
+export const SUGGESTED_POSES = ['fist', 'openPalm', 'peace', 'point'] as const;
+
+export interface PoseSample {
+  label: string;
+  features: number[];
+}
+
+export interface PoseMatch {
+  label: string;
+  // Distance-weighted share of the nearest neighbors' votes for this label
+  confidence: number;
+}
+
+const WRIST = 0;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+
+const NEIGHBORS = 5;
+// Mean per-landmark distance, in palm lengths, beyond which a hand matches
+// no trained pose at all
+const MAX_POSE_DISTANCE = 0.3;
+// Keeps a neighbor at zero distance from outvoting all the others
+const VOTE_SOFTENING = 0.02;
+// A pose must be recognized this long before it counts as entered or left
+const POSE_CONFIRM_MS = 150;
+
+/**
+ * Expresses landmarks 1-20 in a frame attached to the palm: origin at the
+ * wrist, axes from the wrist-to-middle-knuckle and index-to-pinky-knuckle
+ * directions, units of palm length. The result ignores where the hand is,
+ * how large it appears and how it is turned. Left hands are mirrored first
+ * so that samples from either hand are interchangeable.
+ */
+export function normalizePose(landmarks: NormalizedLandmarkList, side: 'left' | 'right'): number[] {
+  const mirror = side === 'left' ? -1 : 1;
+  const points = landmarks.map((l) => new THREE.Vector3(l.x * mirror, l.y, l.z));
+  const wrist = points[WRIST];
+
+  const forward = new THREE.Vector3().subVectors(points[MIDDLE_MCP], wrist);
+  const palmSize = Math.max(forward.length(), 1e-6);
+  forward.normalize();
+  const across = new THREE.Vector3().subVectors(points[INDEX_MCP], points[PINKY_MCP]);
+  const normal = new THREE.Vector3().crossVectors(forward, across).normalize();
+  across.crossVectors(normal, forward).normalize();
+
+  const features: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const offset = new THREE.Vector3().subVectors(points[i], wrist).divideScalar(palmSize);
+    features.push(offset.dot(across), offset.dot(forward), offset.dot(normal));
+  }
+  return features;
+}
+
+function poseDistance(a: number[], b: number[]): number {
+  let total = 0;
+  for (let i = 0; i + 2 < a.length; i += 3) {
+    total += Math.hypot(a[i] - b[i], a[i + 1] - b[i + 1], a[i + 2] - b[i + 2]);
+  }
+  return total / (a.length / 3);
+}
+
+/**
+ * k-nearest-neighbor classifier over normalized poses. A hand far from
+ * every sample, or without a clear majority among its neighbors, matches
+ * nothing rather than the least-bad pose.
+ */
+export class PoseClassifier {
+  private samples: PoseSample[] = [];
+
+  setSamples(samples: PoseSample[]): void {
+    this.samples = samples;
+  }
+
+  classify(features: number[]): PoseMatch | null {
+    if (this.samples.length === 0) return null;
+
+    const nearest = this.samples
+      .filter((sample) => sample.features.length === features.length)
+      .map((sample) => ({ label: sample.label, distance: poseDistance(features, sample.features) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NEIGHBORS);
+    if (nearest.length === 0 || nearest[0].distance > MAX_POSE_DISTANCE) return null;
+
+    // Closer neighbors get a larger say
+    const votes = new Map<string, number>();
+    let totalWeight = 0;
+    nearest
+      .filter((neighbor) => neighbor.distance <= MAX_POSE_DISTANCE)
+      .forEach((neighbor) => {
+        const weight = 1 / (neighbor.distance + VOTE_SOFTENING);
+        votes.set(neighbor.label, (votes.get(neighbor.label) ?? 0) + weight);
+        totalWeight += weight;
+      });
+
+    let best: PoseMatch | null = null;
+    for (const [label, weight] of Array.from(votes)) {
+      const confidence = weight / totalWeight;
+      if (!best || confidence > best.confidence) best = { label, confidence };
+    }
+    return best && best.confidence > 0.5 ? best : null;
+  }
+}
+
+/**
+ * Classifies one hand every frame and debounces the result, reporting the
+ * pose currently held and, on the frame it is confirmed, the pose entered.
+ */
+export class PoseRecognizer {
+  private classifier = new PoseClassifier();
+  private current: string | null = null;
+  private candidate: string | null = null;
+  private candidateSince = 0;
+
+  setSamples(samples: PoseSample[]): void {
+    this.classifier.setSamples(samples);
+  }
+
+  update(hand: GestureState | null, timeMs: number): { pose: string | null; entered: string | null } {
+    const label = hand ? this.classifier.classify(hand.poseFeatures)?.label ?? null : null;
+
+    if (label !== this.candidate) {
+      this.candidate = label;
+      this.candidateSince = timeMs;
+    }
+    // Losing the hand ends a pose at once; changes between poses are debounced
+    const confirmed = !hand || timeMs - this.candidateSince >= POSE_CONFIRM_MS;
+    if (!confirmed || this.candidate === this.current) {
+      return { pose: this.current, entered: null };
+    }
+
+    this.current = this.candidate;
+    return { pose: this.current, entered: this.current };
+  }
+
+  reset(): void {
+    this.current = null;
+    this.candidate = null;
+  }
+}
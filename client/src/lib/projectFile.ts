@@ -0,0 +1,33 @@
+import {
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  type ProjectFile,
+  type ProjectMetadata,
+} from '@shared/project';
+import type { VoxelScene } from './voxelScene';
+
+export function createProjectFile(
+  scene: VoxelScene,
+  metadata: Pick<ProjectMetadata, 'name'> & Partial<ProjectMetadata>
+): ProjectFile {
+  const now = new Date().toISOString();
+  const { palette, voxels } = scene.exportData();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    metadata: {
+      name: metadata.name,
+      createdAt: metadata.createdAt ?? now,
+      updatedAt: now,
+    },
+    palette,
+    voxels,
+    camera: scene.getCameraState(),
+  };
+}
+
+// Expects a file that already went through migrateProjectFile
+export function loadProjectFile(scene: VoxelScene, file: ProjectFile): void {
+  scene.importData({ palette: file.palette, voxels: file.voxels });
+  scene.setCameraState(file.camera);
+}
@@ -3,18 +3,30 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(`${res.status}: ${errorMessage(text)}`);
   }
 }
 
+// API errors are JSON `{ message }`; anything else is shown as sent
+function errorMessage(text: string): string {
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.message === "string") return body.message;
+  } catch {
+    // Not JSON
+  }
+  return text;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...headers, "Content-Type": "application/json" } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -0,0 +1,73 @@
+import {
+  ArrowDown,
+  ArrowDownToDot,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ArrowUpFromDot,
+  ChevronLeft,
+  ChevronRight,
+  Eraser,
+  FlipHorizontal2,
+  Layers,
+  ListChecks,
+  Lock,
+  Minus,
+  PaintBucket,
+  Paintbrush,
+  Pipette,
+  Plus,
+  Redo2,
+  RotateCcw,
+  SquareDashed,
+  SquareX,
+  Trash2,
+  Undo2,
+  WandSparkles,
+  MousePointerClick,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import type { Command } from './commands';
+import type { VoxelScene } from './voxelScene';
+
+/**
+ * The commands that edit the scene, select, pick colors, and the continuous
+ * ones gestures hold. `scene` is read on every run, so the commands can be
+ * registered before the scene exists.
+ */
+export function createSceneCommands(scene: () => VoxelScene | null): Command[] {
+  const cursor = () => scene()?.getCursorStatus();
+  const hasSelection = () => !!scene()?.getSelectionSize();
+  return [
+    { id: 'place', label: 'Place Cube', icon: Plus, group: 'Edit', isEnabled: () => !!cursor()?.canPlace, run: () => scene()?.placeCube() },
+    { id: 'delete', label: 'Delete Cube', icon: Minus, group: 'Edit', isEnabled: () => !!cursor()?.canDelete, run: () => scene()?.deleteCube() },
+    { id: 'cycleFace', label: 'Cycle Face', icon: Layers, group: 'Edit', isEnabled: () => !!cursor()?.hasTarget, run: () => scene()?.cycleFace() },
+    { id: 'undo', label: 'Undo', icon: Undo2, group: 'Edit', isEnabled: () => !!scene()?.canUndo(), run: () => scene()?.undo() },
+    { id: 'redo', label: 'Redo', icon: Redo2, group: 'Edit', isEnabled: () => !!scene()?.canRedo(), run: () => scene()?.redo() },
+    { id: 'clear', label: 'Clear All', icon: Trash2, group: 'Edit', isEnabled: () => !!scene()?.getVoxelCount(), run: () => scene()?.clearAll() },
+    { id: 'selectToggle', label: 'Select Cube', icon: MousePointerClick, group: 'Select', isEnabled: () => !!cursor()?.hasTarget, run: () => scene()?.toggleTargetSelection() },
+    { id: 'selectBoxCorner', label: 'Box Select Corner', icon: SquareDashed, group: 'Select', isEnabled: () => !!cursor()?.hasTarget, run: () => scene()?.markSelectionCorner() },
+    { id: 'selectConnected', label: 'Select Connected (Magic Wand)', icon: WandSparkles, group: 'Select', isEnabled: () => !!cursor()?.hasTarget, run: () => scene()?.selectConnected() },
+    { id: 'selectColor', label: 'Select by Color', icon: Pipette, group: 'Select', run: () => scene()?.selectByColor() },
+    { id: 'selectAll', label: 'Select All', icon: ListChecks, group: 'Select', run: () => scene()?.selectAll() },
+    { id: 'invertSelection', label: 'Invert Selection', icon: FlipHorizontal2, group: 'Select', run: () => scene()?.invertSelection() },
+    { id: 'clearSelection', label: 'Clear Selection', icon: SquareX, group: 'Select', isEnabled: hasSelection, run: () => scene()?.clearSelection() },
+    { id: 'deleteSelection', label: 'Delete Selection', icon: Trash2, group: 'Select', isEnabled: hasSelection, run: () => scene()?.deleteSelection() },
+    { id: 'recolorSelection', label: 'Recolor Selection', icon: PaintBucket, group: 'Select', isEnabled: hasSelection, run: () => scene()?.recolorSelection() },
+    { id: 'moveSelectionLeft', label: 'Move Selection Left', icon: ArrowLeft, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('left') },
+    { id: 'moveSelectionRight', label: 'Move Selection Right', icon: ArrowRight, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('right') },
+    { id: 'moveSelectionUp', label: 'Move Selection Up', icon: ArrowUp, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('up') },
+    { id: 'moveSelectionDown', label: 'Move Selection Down', icon: ArrowDown, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('down') },
+    { id: 'moveSelectionForward', label: 'Move Selection Away', icon: ArrowUpFromDot, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('forward') },
+    { id: 'moveSelectionBack', label: 'Move Selection Closer', icon: ArrowDownToDot, group: 'Select', isEnabled: hasSelection, run: () => scene()?.moveSelection('back') },
+    { id: 'rotate', label: 'Rotate', icon: RotateCcw, group: 'Hold' },
+    { id: 'zoomIn', label: 'Zoom In', icon: ZoomIn, group: 'Hold' },
+    { id: 'zoomOut', label: 'Zoom Out', icon: ZoomOut, group: 'Hold' },
+    { id: 'lock', label: 'Lock View', icon: Lock, group: 'Hold' },
+    { id: 'paint', label: 'Paint Stroke', icon: Paintbrush, group: 'Hold' },
+    { id: 'erase', label: 'Erase Stroke', icon: Eraser, group: 'Hold' },
+    { id: 'paletteNext', label: 'Next Color', icon: ChevronRight, group: 'Color', run: () => scene()?.cycleActiveColor(1) },
+    { id: 'palettePrev', label: 'Previous Color', icon: ChevronLeft, group: 'Color', run: () => scene()?.cycleActiveColor(-1) },
+  ];
+}
@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import {
+  MAX_SETTINGS_TOMBSTONES,
+  SETTINGS_FORMAT,
+  SETTINGS_VERSION,
+  mergeSettingsSync,
+  parseSettingsProfileFile,
+  settingsProfileSchema,
+  settingsSyncSchema,
+  type SettingsProfile,
+  type SettingsProfileFile,
+  type SettingsSync,
+} from '@shared/settings';
+
+// Bumped with SETTINGS_VERSION, so an incompatible build never reads
+// another's settings
+const STORAGE_KEY = `voxelcraft.settings.v${SETTINGS_VERSION}`;
+
+const settingsStateSchema = z.object({
+  activeProfileId: z.string(),
+  profiles: z.array(settingsProfileSchema).min(1),
+  deleted: settingsSyncSchema.shape.deleted,
+});
+
+export type SettingsState = z.infer<typeof settingsStateSchema>;
+
+type Listener = () => void;
+
+// Overrides on top of the default config, offered as starting profiles
+export const SETTINGS_PRESETS: { id: string; name: string; config: Record<string, unknown> }[] = [
+  { id: 'default', name: 'Default', config: {} },
+  // The left hand builds and the right hand steers the view
+  { id: 'left-handed', name: 'Left-handed', config: { handsSwapped: true } },
+  // A steadier view with the landmark overlay hidden from the audience
+  {
+    id: 'presentation',
+    name: 'Presentation',
+    config: { showHandOverlay: false, sensitivity: 6, smoothing: { minCutoff: 0.8 } },
+  },
+  // Heavier smoothing, the forgiving palm cursor and no gestures that need
+  // both hands or quick movements
+  {
+    id: 'accessibility',
+    name: 'Accessibility',
+    config: {
+      sensitivity: 5,
+      pointingMode: 'palm',
+      twoHandGestures: false,
+      motionGestures: { enabled: false },
+      smoothing: { minCutoff: 0.5, beta: 5 },
+    },
+  },
+];
+
+function presetState(): SettingsState {
+  const updatedAt = new Date().toISOString();
+  return {
+    activeProfileId: SETTINGS_PRESETS[0].id,
+    profiles: SETTINGS_PRESETS.map((preset) => ({ ...preset, updatedAt })),
+    deleted: [],
+  };
+}
+
+function createProfileId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `settings-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sameKind(a: unknown, b: unknown): boolean {
+  return typeof a === typeof b && Array.isArray(a) === Array.isArray(b) && (a === null) === (b === null);
+}
+
+/**
+ * Overlays a stored config on the defaults. Values of the wrong type are
+ * dropped, and settings added since the profile was saved keep their
+ * defaults. Keys the defaults don't list, such as extra key bindings, are
+ * kept when they look like their siblings.
+ */
+export function mergeConfig<T>(defaults: T, stored: unknown): T {
+  if (!isPlainObject(defaults)) {
+    return stored !== undefined && sameKind(stored, defaults) ? (stored as T) : defaults;
+  }
+  if (!isPlainObject(stored)) return defaults;
+
+  const siblings = Object.values(defaults);
+  const merged: Record<string, unknown> = { ...defaults };
+  Object.entries(stored).forEach(([key, value]) => {
+    if (key in defaults) {
+      merged[key] = mergeConfig(defaults[key], value);
+    } else if (siblings.length === 0 ? typeof value === 'string' : siblings.some((s) => sameKind(s, value))) {
+      merged[key] = value;
+    }
+  });
+  return merged as T;
+}
+
+/**
+ * Named builder configurations, such as a left-handed or presentation
+ * setup, with one active at a time. Kept in localStorage and synced to the
+ * server with the same owner as cloud projects; components read it through
+ * `useSettingsProfiles`.
+ */
+export class SettingsProfileStore {
+  private storage: Storage | null;
+  private state: SettingsState;
+  private listeners = new Set<Listener>();
+
+  constructor(storage: Storage | null) {
+    this.storage = storage;
+    this.state = this.load();
+  }
+
+  private load(): SettingsState {
+    const raw = this.storage?.getItem(STORAGE_KEY);
+    if (!raw) return presetState();
+    try {
+      const parsed = settingsStateSchema.safeParse(JSON.parse(raw));
+      if (parsed.success) return parsed.data;
+      console.warn('Ignoring invalid stored settings:', parsed.error.issues[0]?.message);
+    } catch {
+      console.warn('Ignoring unreadable stored settings');
+    }
+    return presetState();
+  }
+
+  private commit(state: SettingsState): void {
+    this.state = state;
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): SettingsState {
+    return this.state;
+  }
+
+  getActiveProfile(): SettingsProfile {
+    return this.state.profiles.find((p) => p.id === this.state.activeProfileId) ?? this.state.profiles[0];
+  }
+
+  createProfile(name: string, config: Record<string, unknown>): SettingsProfile {
+    const profile: SettingsProfile = {
+      id: createProfileId(),
+      name: name.trim().slice(0, 60) || 'Settings',
+      config,
+      updatedAt: new Date().toISOString(),
+    };
+    this.commit({ ...this.state, activeProfileId: profile.id, profiles: [...this.state.profiles, profile] });
+    return profile;
+  }
+
+  updateConfig(id: string, config: Record<string, unknown>): void {
+    this.commit({
+      ...this.state,
+      profiles: this.state.profiles.map((p) =>
+        p.id === id ? { ...p, config, updatedAt: new Date().toISOString() } : p
+      ),
+    });
+  }
+
+  // The last profile can't be deleted; there is always one active
+  deleteProfile(id: string): void {
+    const profiles = this.state.profiles.filter((p) => p.id !== id);
+    if (profiles.length === 0 || profiles.length === this.state.profiles.length) return;
+    const activeProfileId = this.state.activeProfileId === id ? profiles[0].id : this.state.activeProfileId;
+    const deleted = [{ id, deletedAt: new Date().toISOString() }, ...this.state.deleted].slice(0, MAX_SETTINGS_TOMBSTONES);
+    this.commit({ activeProfileId, profiles, deleted });
+  }
+
+  setActiveProfile(id: string): void {
+    if (!this.state.profiles.some((p) => p.id === id)) return;
+    this.commit({ ...this.state, activeProfileId: id });
+  }
+
+  exportProfile(id: string): string {
+    const profile = this.state.profiles.find((p) => p.id === id) ?? this.getActiveProfile();
+    const file: SettingsProfileFile = {
+      format: SETTINGS_FORMAT,
+      version: SETTINGS_VERSION,
+      profile: { name: profile.name, config: profile.config },
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /** Adds a profile from exported JSON and makes it active. Throws SettingsFileError if invalid. */
+  importProfile(text: string): SettingsProfile {
+    const { profile } = parseSettingsProfileFile(text);
+    return this.createProfile(profile.name, profile.config);
+  }
+
+  // What the server keeps: the profiles and the deletions still to pass on
+  getSyncState(): SettingsSync {
+    return { profiles: this.state.profiles, deleted: this.state.deleted };
+  }
+
+  /**
+   * Folds in profiles from the server: unknown ones are added, the newer copy
+   * of each known one wins, and profiles deleted on another device are
+   * removed here too. Returns whether anything changed.
+   */
+  mergeRemote(remote: SettingsSync): boolean {
+    const merged = mergeSettingsSync(this.getSyncState(), remote);
+    // There is always one profile; a remote copy that deleted them all is ignored
+    if (merged.profiles.length === 0) return false;
+    if (JSON.stringify(merged) === JSON.stringify(this.getSyncState())) return false;
+
+    const activeProfileId = merged.profiles.some((p) => p.id === this.state.activeProfileId)
+      ? this.state.activeProfileId
+      : merged.profiles[0].id;
+    this.commit({ activeProfileId, ...merged });
+    return true;
+  }
+}
+
+let sharedStore: SettingsProfileStore | null = null;
+
+export function getSettingsProfileStore(): SettingsProfileStore {
+  if (!sharedStore) {
+    sharedStore = new SettingsProfileStore(typeof window !== 'undefined' ? window.localStorage : null);
+  }
+  return sharedStore;
+}
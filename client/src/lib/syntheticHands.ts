@@ -0,0 +1,129 @@
+import { NormalizedLandmarkList } from '@mediapipe/hands';
+import type { HandTracker, HandTrackingCallback, HandTrackingResult } from './handTracking';
+import { RECORDING_FORMAT, RECORDING_VERSION, type HandRecording } from './handRecording';
+import type { PinchFinger } from './gestureRecognition';
+
+export interface SyntheticHandPose {
+  // Center of the knuckles in normalized image coordinates
+  x: number;
+  y: number;
+  // Roughly the palm width as a fraction of the image
+  scale?: number;
+  // Which way the thumb points in the image
+  thumbSide?: 'left' | 'right';
+  pinch?: PinchFinger[];
+}
+
+export type HandScript = (timeMs: number) => Pick<HandTrackingResult, 'leftHand' | 'rightHand'>;
+
+// Open hand in palm units, origin at the knuckles, +y pointing down the image
+const THUMB_POINTS: [number, number][] = [[0.35, 0.9], [0.6, 0.7], [0.8, 0.5], [0.95, 0.35]];
+const FINGER_POINTS: Record<PinchFinger, [number, number][]> = {
+  index: [[0.3, 0.4], [0.32, 0.0], [0.33, -0.3], [0.34, -0.55]],
+  middle: [[0.1, 0.4], [0.1, -0.05], [0.1, -0.38], [0.1, -0.65]],
+  ring: [[-0.1, 0.42], [-0.11, 0.0], [-0.12, -0.3], [-0.13, -0.55]],
+  pinky: [[-0.3, 0.5], [-0.33, 0.2], [-0.35, -0.02], [-0.37, -0.22]],
+};
+const FINGER_ORDER: PinchFinger[] = ['index', 'middle', 'ring', 'pinky'];
+const WRIST_POINT: [number, number] = [0, 1.2];
+
+/**
+ * Builds a plausible 21-point MediaPipe hand. Pinched fingers have their
+ * tip pulled onto the thumb tip, which is all the gesture recognizer reads.
+ */
+export function createSyntheticHand(pose: SyntheticHandPose): NormalizedLandmarkList {
+  const scale = pose.scale ?? 0.1;
+  const flip = pose.thumbSide === 'left' ? -1 : 1;
+  const pinched = new Set(pose.pinch ?? []);
+  const toLandmark = ([px, py]: [number, number]) => ({
+    x: pose.x + px * flip * scale,
+    y: pose.y + py * scale,
+    z: 0,
+  });
+
+  const thumb = THUMB_POINTS.map(toLandmark);
+  const thumbTip = thumb[thumb.length - 1];
+  const landmarks = [toLandmark(WRIST_POINT), ...thumb];
+
+  FINGER_ORDER.forEach((finger) => {
+    const points = FINGER_POINTS[finger].map(toLandmark);
+    if (pinched.has(finger)) {
+      const pip = points[1];
+      points[2] = { x: (pip.x + thumbTip.x) / 2, y: (pip.y + thumbTip.y) / 2, z: 0 };
+      points[3] = { x: thumbTip.x, y: thumbTip.y, z: -0.1 * scale };
+    }
+    landmarks.push(...points);
+  });
+
+  return landmarks;
+}
+
+// Right hand circles the middle of the frame and taps an index pinch every
+// two seconds; the left hand rests without gesturing.
+export const DEMO_SCRIPT: HandScript = (timeMs) => {
+  const angle = (timeMs / 4000) * Math.PI * 2;
+  const tapping = timeMs % 2000 < 300;
+  return {
+    leftHand: createSyntheticHand({ x: 0.72, y: 0.55, thumbSide: 'left' }),
+    rightHand: createSyntheticHand({
+      x: 0.35 + Math.cos(angle) * 0.08,
+      y: 0.45 + Math.sin(angle) * 0.08,
+      thumbSide: 'right',
+      pinch: tapping ? ['index'] : [],
+    }),
+  };
+};
+
+// Samples a script at a fixed rate, e.g. to feed replayRecording in tests
+export function sampleScript(script: HandScript, durationMs: number, fps: number = 30): HandRecording {
+  const frameMs = 1000 / fps;
+  const frames: HandRecording['frames'] = [];
+  for (let t = 0; t <= durationMs; t += frameMs) {
+    const { leftHand, rightHand } = script(t);
+    frames.push({ t: Math.round(t), leftHand, rightHand });
+  }
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    recordedAt: new Date(0).toISOString(),
+    frames,
+  };
+}
+
+export class ScriptedHandTracker implements HandTracker {
+  private script: HandScript;
+  private fps: number;
+  private callback: HandTrackingCallback | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private startTime = 0;
+
+  constructor(script: HandScript = DEMO_SCRIPT, fps: number = 30) {
+    this.script = script;
+    this.fps = fps;
+  }
+
+  async initialize(_videoElement: HTMLVideoElement | null, callback: HandTrackingCallback): Promise<void> {
+    this.callback = callback;
+  }
+
+  start(): void {
+    if (this.intervalId !== null) return;
+    this.startTime = performance.now();
+    this.intervalId = setInterval(() => {
+      const now = performance.now();
+      this.callback?.({ ...this.script(now - this.startTime), timestamp: now });
+    }, 1000 / this.fps);
+  }
+
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  destroy(): void {
+    this.stop();
+    this.callback = null;
+  }
+}
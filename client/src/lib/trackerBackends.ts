@@ -0,0 +1,57 @@
+import { MediaPipeHandTracker, type HandTracker } from './handTracking';
+import { PlaybackHandTracker, parseRecording } from './handRecording';
+import { ScriptedHandTracker } from './syntheticHands';
+import { WebSocketHandTracker } from './webSocketTracker';
+
+export type TrackerKind = 'mediapipe' | 'replay' | 'synthetic' | 'websocket';
+
+export interface TrackerConfig {
+  kind: TrackerKind;
+  // Recording to loop when kind is 'replay'
+  recordingUrl?: string;
+  // Landmark stream to connect to when kind is 'websocket'
+  websocketUrl?: string;
+}
+
+const TRACKER_KINDS: TrackerKind[] = ['mediapipe', 'replay', 'synthetic', 'websocket'];
+const DEFAULT_WEBSOCKET_URL = 'ws://localhost:8765';
+
+function isTrackerKind(value: string | null | undefined): value is TrackerKind {
+  return !!value && (TRACKER_KINDS as string[]).includes(value);
+}
+
+/**
+ * Reads the tracker choice from the URL, falling back to the build-time
+ * VITE_HAND_TRACKER setting, e.g. `?tracker=websocket&ws=ws://localhost:9000`
+ * or `?tracker=replay&recording=/recordings/wave.json`.
+ */
+export function getTrackerConfig(search: string = window.location.search): TrackerConfig {
+  const params = new URLSearchParams(search);
+  const requested = params.get('tracker') ?? import.meta.env.VITE_HAND_TRACKER;
+  return {
+    kind: isTrackerKind(requested) ? requested : 'mediapipe',
+    recordingUrl: params.get('recording') ?? undefined,
+    websocketUrl: params.get('ws') ?? undefined,
+  };
+}
+
+export async function createHandTracker(config: TrackerConfig): Promise<HandTracker> {
+  switch (config.kind) {
+    case 'mediapipe':
+      return new MediaPipeHandTracker();
+    case 'synthetic':
+      return new ScriptedHandTracker();
+    case 'websocket':
+      return new WebSocketHandTracker(config.websocketUrl ?? DEFAULT_WEBSOCKET_URL);
+    case 'replay': {
+      if (!config.recordingUrl) {
+        throw new Error('The replay tracker needs a ?recording= URL');
+      }
+      const response = await fetch(config.recordingUrl);
+      if (!response.ok) {
+        throw new Error(`Could not load ${config.recordingUrl} (${response.status})`);
+      }
+      return new PlaybackHandTracker(parseRecording(await response.text()), { loop: true });
+    }
+  }
+}
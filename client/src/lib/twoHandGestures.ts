@@ -0,0 +1,89 @@
+import type { GestureState, PinchFinger } from './gestureRecognition';
+
+// Both hands pinch with this finger to grab the model between them
+export const TWO_HAND_FINGER: PinchFinger = 'index';
+
+// Index pinches are also each hand's own rotate and place bindings, so the
+// two only grab the model when they start together; pinching one hand while
+// the other already holds (placing while rotating) keeps the single-hand actions
+export const TWO_HAND_ENGAGE_WINDOW_MS = 200;
+
+// Hands closer than this (in normalized screen units) give unstable angles
+const MIN_SPAN = 0.05;
+
+export interface TwoHandUpdate {
+  // Ratio of the current hand-to-hand distance to the previous frame's;
+  // above 1 when the hands spread apart
+  scale: number;
+  // Change in the hand-to-hand vector's angle since the previous frame,
+  // in radians, counter-clockwise as seen by the camera
+  angle: number;
+}
+
+function wrapAngle(angle: number): number {
+  if (angle > Math.PI) return angle - 2 * Math.PI;
+  if (angle < -Math.PI) return angle + 2 * Math.PI;
+  return angle;
+}
+
+/**
+ * Air version of the touchscreen pinch/rotate: while both hands hold an index
+ * pinch, begun within TWO_HAND_ENGAGE_WINDOW_MS of each other, frame-to-frame
+ * changes in the distance and angle between the palms are reported as zoom
+ * and rotation deltas.
+ *
+ * The gesture stays engaged until both pinches are released, so letting go
+ * with one hand first doesn't fall through to that hand's own bindings.
+ */
+export class TwoHandGesture {
+  private engaged = false;
+  private lastSpan: { length: number; angle: number } | null = null;
+  // When each hand's current pinch became active
+  private pinchStarts: [number | null, number | null] = [null, null];
+
+  get isEngaged(): boolean {
+    return this.engaged;
+  }
+
+  update(first: GestureState | null, second: GestureState | null, timeMs: number): TwoHandUpdate | null {
+    const firstActive = first?.pinches[TWO_HAND_FINGER].active ?? false;
+    const secondActive = second?.pinches[TWO_HAND_FINGER].active ?? false;
+    const starts = this.pinchStarts;
+    starts[0] = firstActive ? starts[0] ?? timeMs : null;
+    starts[1] = secondActive ? starts[1] ?? timeMs : null;
+
+    if (!firstActive && !secondActive) {
+      this.engaged = false;
+    }
+    if (!first || !second || !firstActive || !secondActive) {
+      this.lastSpan = null;
+      return null;
+    }
+    if (!this.engaged && Math.abs(starts[0]! - starts[1]!) > TWO_HAND_ENGAGE_WINDOW_MS) {
+      return null;
+    }
+
+    this.engaged = true;
+    const dx = second.palmPosition.x - first.palmPosition.x;
+    const dy = second.palmPosition.y - first.palmPosition.y;
+    const span = { length: Math.hypot(dx, dy), angle: Math.atan2(dy, dx) };
+    if (span.length < MIN_SPAN) {
+      this.lastSpan = null;
+      return null;
+    }
+
+    const previous = this.lastSpan;
+    this.lastSpan = span;
+    if (!previous) return { scale: 1, angle: 0 };
+    return {
+      scale: span.length / previous.length,
+      angle: wrapAngle(span.angle - previous.angle),
+    };
+  }
+
+  reset(): void {
+    this.engaged = false;
+    this.lastSpan = null;
+    this.pinchStarts = [null, null];
+  }
+}
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import {
+  DEFAULT_PINCH_CONFIG,
+  PINCH_FINGERS,
+  thresholdsFromCalibration,
+  type PinchCalibration,
+  type PinchConfig,
+  type PinchFinger,
+} from './gestureRecognition';
+import type { MotionTemplate } from './motionGestures';
+import type { PoseSample } from './poseClassifier';
+
+const STORAGE_KEY = 'voxelcraft.userProfiles';
+// Oldest samples of a pose are dropped beyond this, keeping storage small
+const MAX_SAMPLES_PER_POSE = 60;
+
+const fingerCalibrationSchema = z.object({
+  open: z.number().positive(),
+  pinched: z.number().min(0),
+});
+
+const calibrationSchema = z.object(
+  Object.fromEntries(PINCH_FINGERS.map((finger) => [finger, fingerCalibrationSchema])) as Record<
+    PinchFinger,
+    typeof fingerCalibrationSchema
+  >
+);
+
+const motionTemplateSchema = z.object({
+  name: z.string().min(1).max(30),
+  points: z.array(z.tuple([z.number(), z.number()])).min(2),
+});
+
+const poseSampleSchema = z.object({
+  label: z.string().min(1).max(30),
+  features: z.array(z.number()),
+});
+
+const userProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(60),
+  calibration: calibrationSchema.nullable(),
+  // Motion gestures the user recorded, already normalized
+  motionTemplates: z.array(motionTemplateSchema).default([]),
+  // Labelled hand poses captured with the pose trainer
+  poseSamples: z.array(poseSampleSchema).default([]),
+  updatedAt: z.string(),
+});
+
+const profileStateSchema = z.object({
+  activeProfileId: z.string().nullable(),
+  profiles: z.array(userProfileSchema),
+});
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+export type UserProfileState = z.infer<typeof profileStateSchema>;
+
+type Listener = () => void;
+
+const EMPTY_STATE: UserProfileState = { activeProfileId: null, profiles: [] };
+
+function createProfileId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Per-user settings that follow a person rather than a project, such as
+ * their pinch calibration. Kept in localStorage; components read it through
+ * `useUserProfiles`, which re-renders on every change.
+ */
+export class UserProfileStore {
+  private storage: Storage | null;
+  private state: UserProfileState;
+  private listeners = new Set<Listener>();
+
+  constructor(storage: Storage | null) {
+    this.storage = storage;
+    this.state = this.load();
+  }
+
+  private load(): UserProfileState {
+    const raw = this.storage?.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_STATE;
+    try {
+      const parsed = profileStateSchema.safeParse(JSON.parse(raw));
+      if (parsed.success) return parsed.data;
+      console.warn('Ignoring invalid stored user profiles:', parsed.error.issues[0]?.message);
+    } catch {
+      console.warn('Ignoring unreadable stored user profiles');
+    }
+    return EMPTY_STATE;
+  }
+
+  private commit(state: UserProfileState): void {
+    this.state = state;
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (err) {
+      console.error('Failed to save user profiles:', err);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): UserProfileState {
+    return this.state;
+  }
+
+  createProfile(name: string): UserProfile {
+    const profile: UserProfile = {
+      id: createProfileId(),
+      name: name.trim() || 'Player',
+      calibration: null,
+      motionTemplates: [],
+      poseSamples: [],
+      updatedAt: new Date().toISOString(),
+    };
+    this.commit({ activeProfileId: profile.id, profiles: [...this.state.profiles, profile] });
+    return profile;
+  }
+
+  updateProfile(id: string, update: Partial<Omit<UserProfile, 'id' | 'updatedAt'>>): void {
+    this.commit({
+      ...this.state,
+      profiles: this.state.profiles.map((p) =>
+        p.id === id ? { ...p, ...update, updatedAt: new Date().toISOString() } : p
+      ),
+    });
+  }
+
+  setCalibration(id: string, calibration: PinchCalibration | null): void {
+    this.updateProfile(id, { calibration });
+  }
+
+  addMotionTemplate(id: string, template: MotionTemplate): void {
+    const profile = this.state.profiles.find((p) => p.id === id);
+    if (!profile) return;
+    this.updateProfile(id, { motionTemplates: [...profile.motionTemplates, template] });
+  }
+
+  removeMotionTemplates(id: string, name: string): void {
+    const profile = this.state.profiles.find((p) => p.id === id);
+    if (!profile) return;
+    this.updateProfile(id, { motionTemplates: profile.motionTemplates.filter((t) => t.name !== name) });
+  }
+
+  addPoseSamples(id: string, label: string, features: number[][]): void {
+    const profile = this.state.profiles.find((p) => p.id === id);
+    if (!profile) return;
+    const existing = profile.poseSamples.filter((sample) => sample.label === label);
+    const kept = [...existing.map((sample) => sample.features), ...features].slice(-MAX_SAMPLES_PER_POSE);
+    this.updateProfile(id, {
+      poseSamples: [
+        ...profile.poseSamples.filter((sample) => sample.label !== label),
+        ...kept.map((f): PoseSample => ({ label, features: f })),
+      ],
+    });
+  }
+
+  removePoseSamples(id: string, label: string): void {
+    const profile = this.state.profiles.find((p) => p.id === id);
+    if (!profile) return;
+    this.updateProfile(id, { poseSamples: profile.poseSamples.filter((sample) => sample.label !== label) });
+  }
+
+  deleteProfile(id: string): void {
+    const profiles = this.state.profiles.filter((p) => p.id !== id);
+    const activeProfileId = this.state.activeProfileId === id ? profiles[0]?.id ?? null : this.state.activeProfileId;
+    this.commit({ activeProfileId, profiles });
+  }
+
+  setActiveProfile(id: string | null): void {
+    if (id !== null && !this.state.profiles.some((p) => p.id === id)) return;
+    this.commit({ ...this.state, activeProfileId: id });
+  }
+}
+
+export function getPinchConfig(profile: UserProfile | null): PinchConfig {
+  if (!profile?.calibration) return DEFAULT_PINCH_CONFIG;
+  return { ...DEFAULT_PINCH_CONFIG, fingers: thresholdsFromCalibration(profile.calibration) };
+}
+
+let sharedStore: UserProfileStore | null = null;
+
+export function getUserProfileStore(): UserProfileStore {
+  if (!sharedStore) {
+    sharedStore = new UserProfileStore(typeof window !== 'undefined' ? window.localStorage : null);
+  }
+  return sharedStore;
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isVoxFile, parseVox, writeVox } from './voxFormat';
+import type { SceneData } from './voxelScene';
+
+// Voxels as "x,y,z,#color" shifted to a zero origin, since the writer
+// normalizes positions and the reader compacts the palette to colors in use
+function normalized(data: SceneData): string[] {
+  const min = ['x', 'y', 'z'].map((axis) => Math.min(...data.voxels.map((v) => v[axis as 'x' | 'y' | 'z'])));
+  return data.voxels
+    .map((v) => `${v.x - min[0]},${v.y - min[1]},${v.z - min[2]},${data.palette[v.color]}`)
+    .sort();
+}
+
+test('a scene round-trips through .vox with its custom palette', () => {
+  const scene: SceneData = {
+    palette: ['#123456', '#abcdef', '#ff8800'],
+    voxels: [
+      { x: -2, y: 0, z: 3, color: 2 },
+      { x: 0, y: 1, z: 0, color: 0 },
+      { x: 1, y: 4, z: -1, color: 1 },
+    ],
+  };
+  const buffer = writeVox(scene);
+  assert.equal(isVoxFile(buffer), true);
+
+  const parsed = parseVox(buffer);
+  assert.deepEqual(normalized(parsed), normalized(scene));
+  assert.deepEqual([...parsed.palette].sort(), [...scene.palette].sort());
+});
+
+test('a scene wider than one model is split into blocks and reassembled', () => {
+  const palette = ['#e53935', '#43a047', '#1e88e5'];
+  const voxels: SceneData['voxels'] = [];
+  // 600 voxels along X and 300 along Z, past the 256 limit on both axes
+  for (let x = -100; x < 500; x++) voxels.push({ x, y: 0, z: 0, color: ((x % 3) + 3) % 3 });
+  for (let z = 1; z <= 300; z++) voxels.push({ x: 0, y: 2, z, color: z % 3 });
+  const scene: SceneData = { palette, voxels };
+
+  const parsed = parseVox(writeVox(scene));
+  assert.equal(parsed.voxels.length, voxels.length);
+  assert.deepEqual(normalized(parsed), normalized(scene));
+});
+
+test('an empty scene cannot be exported', () => {
+  assert.throws(() => writeVox({ palette: ['#ffffff'], voxels: [] }), /empty scene/);
+});
+
+test('files without the VOX header are rejected', () => {
+  const buffer = new TextEncoder().encode('{"palette":[],"voxels":[]}').buffer;
+  assert.equal(isVoxFile(buffer), false);
+  assert.throws(() => parseVox(buffer), /missing "VOX " header/);
+});
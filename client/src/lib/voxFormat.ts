@@ -0,0 +1,428 @@
+import type { SceneData, VoxelData } from './voxelScene';
+import { MAX_PALETTE_SIZE } from './palette';
+
+// MagicaVoxel .vox reader/writer.
+// Spec: https://github.com/ephtracy/voxel-model/blob/master/MagicaVoxel-file-format-vox.txt
+//
+// MagicaVoxel is Z-up, the scene is Y-up, so a vox (x, y, z) maps to (x, z, -y).
+
+const VOX_VERSION = 150;
+const MAX_MODEL_SIZE = 256;
+const MODEL_GAP = 2;
+
+interface VoxModel {
+  size: [number, number, number];
+  voxels: { x: number; y: number; z: number; colorIndex: number }[];
+}
+
+interface SceneNode {
+  type: 'nTRN' | 'nGRP' | 'nSHP';
+  children: number[];
+  translation?: [number, number, number];
+  modelIds?: number[];
+}
+
+// MagicaVoxel's built-in palette, used when a file has no RGBA chunk:
+// a 6-level color cube without black, followed by red, green, blue and grey ramps.
+function buildDefaultPalette(): number[][] {
+  const levels = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  const colors: number[][] = [];
+  levels.forEach((r) => levels.forEach((g) => levels.forEach((b) => {
+    if (r || g || b) colors.push([r, g, b]);
+  })));
+  ramp.forEach((v) => colors.push([v, 0, 0]));
+  ramp.forEach((v) => colors.push([0, v, 0]));
+  ramp.forEach((v) => colors.push([0, 0, v]));
+  ramp.forEach((v) => colors.push([v, v, v]));
+  return colors.slice(0, MAX_PALETTE_SIZE);
+}
+
+function toHex([r, g, b]: number[]): string {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function fromHex(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+class VoxReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  get length(): number {
+    return this.view.byteLength;
+  }
+
+  id(): string {
+    const chars = [0, 1, 2, 3].map((i) => String.fromCharCode(this.view.getUint8(this.offset + i)));
+    this.offset += 4;
+    return chars.join('');
+  }
+
+  int32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  string(): string {
+    const length = this.int32();
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return new TextDecoder().decode(bytes);
+  }
+
+  dict(): Record<string, string> {
+    const result: Record<string, string> = {};
+    const count = this.int32();
+    for (let i = 0; i < count; i++) {
+      const key = this.string();
+      result[key] = this.string();
+    }
+    return result;
+  }
+}
+
+export function isVoxFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 8) return false;
+  return new VoxReader(buffer).id() === 'VOX ';
+}
+
+export function parseVox(buffer: ArrayBuffer): SceneData {
+  const reader = new VoxReader(buffer);
+  if (reader.length < 20 || reader.id() !== 'VOX ') {
+    throw new Error('Not a MagicaVoxel file: missing "VOX " header');
+  }
+  reader.int32(); // version
+  if (reader.id() !== 'MAIN') {
+    throw new Error('Malformed .vox file: missing MAIN chunk');
+  }
+  const mainContent = reader.int32();
+  const mainChildren = reader.int32();
+  reader.offset += mainContent;
+  const end = Math.min(reader.offset + mainChildren, reader.length);
+
+  const models: VoxModel[] = [];
+  const nodes = new Map<number, SceneNode>();
+  let rgba: number[][] | null = null;
+  let pendingSize: [number, number, number] | null = null;
+
+  while (reader.offset + 12 <= end) {
+    const chunkId = reader.id();
+    const contentSize = reader.int32();
+    const childrenSize = reader.int32();
+    const chunkEnd = reader.offset + contentSize;
+    if (chunkEnd > end) throw new Error(`Malformed .vox file: ${chunkId} chunk is truncated`);
+
+    switch (chunkId) {
+      case 'SIZE':
+        pendingSize = [reader.int32(), reader.int32(), reader.int32()];
+        break;
+      case 'XYZI': {
+        if (!pendingSize) throw new Error('Malformed .vox file: XYZI chunk without SIZE');
+        const count = reader.int32();
+        const voxels: VoxModel['voxels'] = [];
+        for (let i = 0; i < count; i++) {
+          voxels.push({ x: reader.uint8(), y: reader.uint8(), z: reader.uint8(), colorIndex: reader.uint8() });
+        }
+        models.push({ size: pendingSize, voxels });
+        pendingSize = null;
+        break;
+      }
+      case 'RGBA':
+        rgba = [];
+        for (let i = 0; i < 256; i++) {
+          rgba.push([reader.uint8(), reader.uint8(), reader.uint8(), reader.uint8()]);
+        }
+        break;
+      case 'nTRN': {
+        const nodeId = reader.int32();
+        reader.dict();
+        const childId = reader.int32();
+        reader.int32(); // reserved
+        reader.int32(); // layer
+        const frames = reader.int32();
+        let translation: [number, number, number] | undefined;
+        for (let i = 0; i < frames; i++) {
+          const frame = reader.dict();
+          if (i === 0 && frame._t) {
+            const [tx, ty, tz] = frame._t.split(' ').map(Number);
+            translation = [tx || 0, ty || 0, tz || 0];
+          }
+        }
+        nodes.set(nodeId, { type: 'nTRN', children: [childId], translation });
+        break;
+      }
+      case 'nGRP': {
+        const nodeId = reader.int32();
+        reader.dict();
+        const count = reader.int32();
+        const children: number[] = [];
+        for (let i = 0; i < count; i++) children.push(reader.int32());
+        nodes.set(nodeId, { type: 'nGRP', children });
+        break;
+      }
+      case 'nSHP': {
+        const nodeId = reader.int32();
+        reader.dict();
+        const count = reader.int32();
+        const modelIds: number[] = [];
+        for (let i = 0; i < count; i++) {
+          modelIds.push(reader.int32());
+          reader.dict();
+        }
+        nodes.set(nodeId, { type: 'nSHP', children: [], modelIds });
+        break;
+      }
+      default:
+        // PACK, MATL, LAYR, rOBJ, rCAM, NOTE, IMAP... are not needed
+        break;
+    }
+
+    reader.offset = chunkEnd + childrenSize;
+  }
+
+  if (models.length === 0) {
+    throw new Error('The .vox file does not contain any models');
+  }
+
+  const sourcePalette = rgba ?? buildDefaultPalette().map((c) => [...c, 255]);
+  const placements = placeModels(models, nodes);
+
+  // Compact the 255-entry vox palette down to the colors actually used
+  const paletteMap = new Map<number, number>();
+  const palette: string[] = [];
+  const voxels: VoxelData[] = [];
+  models.forEach((model, modelIndex) => {
+    const [ox, oy, oz] = placements[modelIndex];
+    model.voxels.forEach((v) => {
+      if (v.colorIndex === 0) return;
+      let color = paletteMap.get(v.colorIndex);
+      if (color === undefined) {
+        color = palette.length;
+        paletteMap.set(v.colorIndex, color);
+        palette.push(toHex(sourcePalette[v.colorIndex - 1] ?? [255, 255, 255]));
+      }
+      const vx = ox + v.x;
+      const vy = oy + v.y;
+      const vz = oz + v.z;
+      voxels.push({ x: vx, y: vz, z: -vy, color });
+    });
+  });
+
+  return { palette: palette.length > 0 ? palette : ['#ffffff'], voxels };
+}
+
+// Model origins in vox space. Uses the nTRN translations when the file has a
+// scene graph, otherwise lays the models out side by side along X.
+function placeModels(models: VoxModel[], nodes: Map<number, SceneNode>): [number, number, number][] {
+  const placements: ([number, number, number] | undefined)[] = new Array(models.length);
+
+  const visit = (nodeId: number, offset: [number, number, number], depth: number) => {
+    const node = nodes.get(nodeId);
+    if (!node || depth > 64) return;
+    const t = node.translation ?? [0, 0, 0];
+    const next: [number, number, number] = [offset[0] + t[0], offset[1] + t[1], offset[2] + t[2]];
+    node.modelIds?.forEach((modelId) => {
+      const model = models[modelId];
+      if (!model || placements[modelId]) return;
+      // Translations point at the model's center
+      placements[modelId] = [
+        next[0] - Math.floor(model.size[0] / 2),
+        next[1] - Math.floor(model.size[1] / 2),
+        next[2] - Math.floor(model.size[2] / 2),
+      ];
+    });
+    node.children.forEach((child) => visit(child, next, depth + 1));
+  };
+  if (nodes.has(0)) visit(0, [0, 0, 0], 0);
+
+  let cursorX = 0;
+  return models.map((model, index) => {
+    const placed = placements[index];
+    if (placed) return placed;
+    const origin: [number, number, number] = [cursorX, 0, 0];
+    cursorX += model.size[0] + MODEL_GAP;
+    return origin;
+  });
+}
+
+class VoxWriter {
+  private bytes: number[] = [];
+
+  id(value: string): void {
+    for (let i = 0; i < 4; i++) this.bytes.push(value.charCodeAt(i));
+  }
+
+  int32(value: number): void {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff);
+  }
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  string(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.int32(encoded.length);
+    encoded.forEach((b) => this.bytes.push(b));
+  }
+
+  dict(entries: Record<string, string>): void {
+    const keys = Object.keys(entries);
+    this.int32(keys.length);
+    keys.forEach((key) => {
+      this.string(key);
+      this.string(entries[key]);
+    });
+  }
+
+  chunk(chunkId: string, writeContent: (w: VoxWriter) => void): void {
+    const content = new VoxWriter();
+    writeContent(content);
+    this.id(chunkId);
+    this.int32(content.bytes.length);
+    this.int32(0);
+    this.append(content);
+  }
+
+  append(other: VoxWriter): void {
+    for (let i = 0; i < other.bytes.length; i++) this.bytes.push(other.bytes[i]);
+  }
+
+  get size(): number {
+    return this.bytes.length;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return new Uint8Array(this.bytes).buffer;
+  }
+}
+
+export function writeVox(data: SceneData): ArrayBuffer {
+  if (data.voxels.length === 0) {
+    throw new Error('Cannot export an empty scene to .vox');
+  }
+
+  // Convert to vox space and normalize to a non-negative origin
+  const points = data.voxels.map((v) => ({ x: v.x, y: -v.z, z: v.y, color: v.color }));
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  points.forEach((p) => {
+    min.x = Math.min(min.x, p.x);
+    min.y = Math.min(min.y, p.y);
+    min.z = Math.min(min.z, p.z);
+  });
+
+  // Models are limited to 256³, so large scenes are split into blocks
+  const blocks = new Map<string, { origin: [number, number, number]; voxels: typeof points }>();
+  points.forEach((p) => {
+    const lx = p.x - min.x;
+    const ly = p.y - min.y;
+    const lz = p.z - min.z;
+    const origin: [number, number, number] = [
+      Math.floor(lx / MAX_MODEL_SIZE) * MAX_MODEL_SIZE,
+      Math.floor(ly / MAX_MODEL_SIZE) * MAX_MODEL_SIZE,
+      Math.floor(lz / MAX_MODEL_SIZE) * MAX_MODEL_SIZE,
+    ];
+    const key = origin.join('_');
+    if (!blocks.has(key)) blocks.set(key, { origin, voxels: [] });
+    blocks.get(key)!.voxels.push({ ...p, x: lx - origin[0], y: ly - origin[1], z: lz - origin[2] });
+  });
+
+  const children = new VoxWriter();
+  const models = Array.from(blocks.values()).map(({ origin, voxels }) => {
+    const size: [number, number, number] = [1, 1, 1];
+    voxels.forEach((v) => {
+      size[0] = Math.max(size[0], v.x + 1);
+      size[1] = Math.max(size[1], v.y + 1);
+      size[2] = Math.max(size[2], v.z + 1);
+    });
+    children.chunk('SIZE', (w) => size.forEach((s) => w.int32(s)));
+    children.chunk('XYZI', (w) => {
+      w.int32(voxels.length);
+      voxels.forEach((v) => {
+        w.uint8(v.x);
+        w.uint8(v.y);
+        w.uint8(v.z);
+        w.uint8(Math.min(v.color, MAX_PALETTE_SIZE - 1) + 1);
+      });
+    });
+    return { origin, size };
+  });
+
+  if (models.length > 1) {
+    writeSceneGraph(children, models);
+  }
+
+  children.chunk('RGBA', (w) => {
+    for (let i = 0; i < 256; i++) {
+      const color = data.palette[i];
+      const [r, g, b] = color ? fromHex(color) : [0, 0, 0];
+      w.uint8(r);
+      w.uint8(g);
+      w.uint8(b);
+      w.uint8(255);
+    }
+  });
+
+  const out = new VoxWriter();
+  out.id('VOX ');
+  out.int32(VOX_VERSION);
+  out.id('MAIN');
+  out.int32(0);
+  out.int32(children.size);
+  out.append(children);
+  return out.toArrayBuffer();
+}
+
+// Root transform -> group -> (transform -> shape) per model, so each block
+// keeps its position when opened in MagicaVoxel.
+function writeSceneGraph(
+  w: VoxWriter,
+  models: { origin: [number, number, number]; size: [number, number, number] }[]
+): void {
+  w.chunk('nTRN', (c) => {
+    c.int32(0);
+    c.dict({});
+    c.int32(1);
+    c.int32(-1);
+    c.int32(-1);
+    c.int32(1);
+    c.dict({});
+  });
+  w.chunk('nGRP', (c) => {
+    c.int32(1);
+    c.dict({});
+    c.int32(models.length);
+    models.forEach((_, i) => c.int32(2 + i * 2));
+  });
+  models.forEach(({ origin, size }, i) => {
+    const center = origin.map((o, axis) => o + Math.floor(size[axis] / 2));
+    w.chunk('nTRN', (c) => {
+      c.int32(2 + i * 2);
+      c.dict({});
+      c.int32(3 + i * 2);
+      c.int32(-1);
+      c.int32(0);
+      c.int32(1);
+      c.dict({ _t: center.join(' ') });
+    });
+    w.chunk('nSHP', (c) => {
+      c.int32(3 + i * 2);
+      c.dict({});
+      c.int32(1);
+      c.int32(i);
+      c.dict({});
+    });
+  });
+}
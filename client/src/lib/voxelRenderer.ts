@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+
+export const CHUNK_SIZE = 16;
+
+export type SolidLookup = (x: number, y: number, z: number) => boolean;
+
+interface RenderVoxel {
+  position: THREE.Vector3;
+  colorIndex: number;
+}
+
+// Same face order as the scene's face normals: +X, -X, +Y, -Y, +Z, -Z.
+// Corners are wound counter-clockwise when looking at the face from outside.
+const FACES: { normal: [number, number, number]; corners: [number, number, number][] }[] = [
+  { normal: [1, 0, 0], corners: [[0.5, -0.5, 0.5], [0.5, -0.5, -0.5], [0.5, 0.5, -0.5], [0.5, 0.5, 0.5]] },
+  { normal: [-1, 0, 0], corners: [[-0.5, -0.5, -0.5], [-0.5, -0.5, 0.5], [-0.5, 0.5, 0.5], [-0.5, 0.5, -0.5]] },
+  { normal: [0, 1, 0], corners: [[-0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.5, 0.5, -0.5], [-0.5, 0.5, -0.5]] },
+  { normal: [0, -1, 0], corners: [[-0.5, -0.5, -0.5], [0.5, -0.5, -0.5], [0.5, -0.5, 0.5], [-0.5, -0.5, 0.5]] },
+  { normal: [0, 0, 1], corners: [[-0.5, -0.5, 0.5], [0.5, -0.5, 0.5], [0.5, 0.5, 0.5], [-0.5, 0.5, 0.5]] },
+  { normal: [0, 0, -1], corners: [[0.5, -0.5, -0.5], [-0.5, -0.5, -0.5], [-0.5, 0.5, -0.5], [0.5, 0.5, -0.5]] },
+];
+
+function chunkCoord(value: number): number {
+  return Math.floor(value / CHUNK_SIZE);
+}
+
+function chunkKeyFor(x: number, y: number, z: number): string {
+  return `${chunkCoord(x)}_${chunkCoord(y)}_${chunkCoord(z)}`;
+}
+
+/**
+ * Renders voxels as one merged mesh per 16³ chunk, emitting only faces that
+ * touch empty space. Edits only rebuild the chunks they touch, so per-frame
+ * cost is independent of how many voxels the model has.
+ */
+export class ChunkedVoxelRenderer {
+  private parent: THREE.Object3D;
+  private isSolid: SolidLookup;
+  private material: THREE.MeshStandardMaterial;
+  private chunkMeshes = new Map<string, THREE.Mesh>();
+  private chunkMembers = new Map<string, Map<string, RenderVoxel>>();
+  private dirtyChunks = new Set<string>();
+  private palette: THREE.Color[] = [];
+
+  constructor(parent: THREE.Object3D, isSolid: SolidLookup) {
+    this.parent = parent;
+    this.isSolid = isSolid;
+    this.material = new THREE.MeshStandardMaterial({
+      vertexColors: true,
+      metalness: 0.3,
+      roughness: 0.4,
+    });
+  }
+
+  setPalette(colors: string[]): void {
+    this.palette = colors.map((color) => new THREE.Color(color));
+    this.chunkMembers.forEach((_, key) => this.dirtyChunks.add(key));
+  }
+
+  add(key: string, voxel: RenderVoxel): void {
+    const { x, y, z } = voxel.position;
+    const chunkKey = chunkKeyFor(x, y, z);
+    let members = this.chunkMembers.get(chunkKey);
+    if (!members) {
+      members = new Map();
+      this.chunkMembers.set(chunkKey, members);
+    }
+    members.set(key, voxel);
+    this.markDirty(voxel.position);
+  }
+
+  remove(key: string, position: THREE.Vector3): void {
+    const chunkKey = chunkKeyFor(position.x, position.y, position.z);
+    const members = this.chunkMembers.get(chunkKey);
+    if (!members) return;
+    members.delete(key);
+    if (members.size === 0) this.chunkMembers.delete(chunkKey);
+    this.markDirty(position);
+  }
+
+  // Recolors happen in place on the voxel, so only the chunk needs rebuilding
+  markDirty(position: THREE.Vector3): void {
+    const { x, y, z } = position;
+    this.dirtyChunks.add(chunkKeyFor(x, y, z));
+
+    // Voxels on a chunk border can hide or expose faces in the neighbor chunk
+    const offsets = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+    offsets.forEach(([dx, dy, dz]) => {
+      const neighborKey = chunkKeyFor(x + dx, y + dy, z + dz);
+      if (this.chunkMembers.has(neighborKey)) this.dirtyChunks.add(neighborKey);
+    });
+  }
+
+  update(): void {
+    if (this.dirtyChunks.size === 0) return;
+    this.dirtyChunks.forEach((chunkKey) => this.rebuildChunk(chunkKey));
+    this.dirtyChunks.clear();
+  }
+
+  getMeshes(): THREE.Mesh[] {
+    return Array.from(this.chunkMeshes.values());
+  }
+
+  clear(): void {
+    this.chunkMeshes.forEach((mesh) => {
+      this.parent.remove(mesh);
+      mesh.geometry.dispose();
+    });
+    this.chunkMeshes.clear();
+    this.chunkMembers.clear();
+    this.dirtyChunks.clear();
+  }
+
+  dispose(): void {
+    this.clear();
+    this.material.dispose();
+  }
+
+  private rebuildChunk(chunkKey: string): void {
+    const existing = this.chunkMeshes.get(chunkKey);
+    if (existing) {
+      this.parent.remove(existing);
+      existing.geometry.dispose();
+      this.chunkMeshes.delete(chunkKey);
+    }
+
+    const members = this.chunkMembers.get(chunkKey);
+    if (!members || members.size === 0) return;
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const colors: number[] = [];
+    const indices: number[] = [];
+    const fallback = new THREE.Color(0xffffff);
+
+    members.forEach((voxel) => {
+      const { x, y, z } = voxel.position;
+      const color = this.palette[voxel.colorIndex] ?? this.palette[0] ?? fallback;
+
+      FACES.forEach(({ normal, corners }) => {
+        if (this.isSolid(x + normal[0], y + normal[1], z + normal[2])) return;
+
+        const base = positions.length / 3;
+        corners.forEach(([cx, cy, cz]) => {
+          positions.push(x + cx, y + cy, z + cz);
+          normals.push(normal[0], normal[1], normal[2]);
+          colors.push(color.r, color.g, color.b);
+        });
+        indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+      });
+    });
+
+    if (indices.length === 0) return;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    geometry.setIndex(indices);
+    geometry.computeBoundingSphere();
+
+    const mesh = new THREE.Mesh(geometry, this.material);
+    this.parent.add(mesh);
+    this.chunkMeshes.set(chunkKey, mesh);
+  }
+}
+
+/**
+ * Overlay that marks the targeted voxel and face without touching the
+ * voxel meshes themselves.
+ */
+export class VoxelHighlight {
+  readonly object: THREE.Group;
+  private outline: THREE.LineSegments;
+  private face: THREE.Mesh;
+
+  constructor(outlineColor: THREE.ColorRepresentation, faceColor: THREE.ColorRepresentation) {
+    this.object = new THREE.Group();
+    this.object.visible = false;
+
+    this.outline = new THREE.LineSegments(
+      new THREE.EdgesGeometry(new THREE.BoxGeometry(1.04, 1.04, 1.04)),
+      new THREE.LineBasicMaterial({ color: outlineColor, transparent: true, opacity: 0.9 })
+    );
+    this.object.add(this.outline);
+
+    this.face = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.MeshBasicMaterial({
+        color: faceColor,
+        transparent: true,
+        opacity: 0.55,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+    );
+    this.object.add(this.face);
+  }
+
+  show(position: THREE.Vector3, faceNormal: THREE.Vector3): void {
+    this.object.position.copy(position);
+    this.face.position.copy(faceNormal).multiplyScalar(0.51);
+    this.face.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), faceNormal);
+    this.object.visible = true;
+  }
+
+  hide(): void {
+    this.object.visible = false;
+  }
+
+  dispose(): void {
+    this.outline.geometry.dispose();
+    (this.outline.material as THREE.Material).dispose();
+    this.face.geometry.dispose();
+    (this.face.material as THREE.Material).dispose();
+  }
+}
+
+/**
+ * Tints every selected voxel with a translucent shell, drawn as one
+ * instanced mesh that grows as the selection does.
+ */
+export class SelectionHighlight {
+  readonly object: THREE.Group;
+  private geometry = new THREE.BoxGeometry(1.06, 1.06, 1.06);
+  private material: THREE.MeshBasicMaterial;
+  private mesh: THREE.InstancedMesh | null = null;
+
+  constructor(color: THREE.ColorRepresentation) {
+    this.object = new THREE.Group();
+    this.material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.35,
+      depthWrite: false,
+    });
+  }
+
+  update(positions: THREE.Vector3[]): void {
+    if (!this.mesh || this.mesh.instanceMatrix.count < positions.length) {
+      this.disposeMesh();
+      const capacity = Math.max(64, 2 ** Math.ceil(Math.log2(Math.max(positions.length, 1))));
+      this.mesh = new THREE.InstancedMesh(this.geometry, this.material, capacity);
+      this.mesh.frustumCulled = false;
+      this.object.add(this.mesh);
+    }
+
+    const matrix = new THREE.Matrix4();
+    positions.forEach((position, i) => {
+      this.mesh!.setMatrixAt(i, matrix.makeTranslation(position.x, position.y, position.z));
+    });
+    this.mesh.count = positions.length;
+    this.mesh.instanceMatrix.needsUpdate = true;
+  }
+
+  private disposeMesh(): void {
+    if (!this.mesh) return;
+    this.object.remove(this.mesh);
+    this.mesh.dispose();
+    this.mesh = null;
+  }
+
+  dispose(): void {
+    this.disposeMesh();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
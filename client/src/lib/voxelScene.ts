@@ -1,11 +1,80 @@
 import * as THREE from 'three';
+import { DEFAULT_PALETTE, MAX_PALETTE_SIZE, clampColorIndex, normalizePalette } from './palette';
+import { CommandHistory, EditCommand } from './commandHistory';
+import { ChunkedVoxelRenderer, SelectionHighlight, VoxelHighlight } from './voxelRenderer';
 
 export interface Voxel {
   id: string;
   position: THREE.Vector3;
-  mesh: THREE.Mesh;
+  colorIndex: number;
 }
 
+export interface VoxelData {
+  x: number;
+  y: number;
+  z: number;
+  color: number;
+}
+
+export interface SceneData {
+  palette: string[];
+  voxels: VoxelData[];
+}
+
+// A reversible edit: voxels removed and added, plus the palette swap for
+// imports and palette edits and, for edits to the selection, the selected
+// keys either side so undo and redo keep the same voxels selected
+interface VoxelChange {
+  removed: VoxelData[];
+  added: VoxelData[];
+  paletteBefore?: string[];
+  paletteAfter?: string[];
+  selectionBefore?: string[];
+  selectionAfter?: string[];
+}
+
+export type SceneChangeListener = () => void;
+
+// translate: moving the pinched palm spins the model (yaw and pitch);
+// grab: the model turns with the palm's own orientation, including roll
+export type RotationMode = 'translate' | 'grab';
+
+// palm: the legacy wrist-driven cursor; fingertip: targets the face under
+// the index fingertip; ray: casts through the fingertip, bent by the
+// direction the finger points; depth: like fingertip, but moving the hand
+// towards the camera reaches voxels behind the front surface
+export type PointingMode = 'palm' | 'fingertip' | 'ray' | 'depth';
+
+export type StrokeMode = 'paint' | 'erase';
+
+// Directions relative to the screen, for moving the selection whichever way
+// the model is turned; forward is away from the viewer
+export type ScreenDirection = 'left' | 'right' | 'up' | 'down' | 'forward' | 'back';
+
+const SCREEN_DIRECTIONS: Record<ScreenDirection, THREE.Vector3> = {
+  left: new THREE.Vector3(-1, 0, 0),
+  right: new THREE.Vector3(1, 0, 0),
+  up: new THREE.Vector3(0, 1, 0),
+  down: new THREE.Vector3(0, -1, 0),
+  forward: new THREE.Vector3(0, 0, -1),
+  back: new THREE.Vector3(0, 0, 1),
+};
+
+export interface VoxelSceneOptions {
+  // False leaves the scene empty, e.g. while offering to restore saved work;
+  // call placeInitialCube to seed it later
+  initialCube?: boolean;
+}
+
+export interface CursorStatus {
+  hasTarget: boolean;
+  canPlace: boolean;
+  canDelete: boolean;
+}
+
+// Which input currently owns the target highlight
+type CursorSource = 'hand' | 'pointer';
+
 export interface VoxelSceneState {
   voxels: Map<string, Voxel>;
   targetPosition: THREE.Vector3 | null;
@@ -18,13 +87,34 @@ export interface VoxelSceneState {
   isLocked: boolean;
   isRotating: boolean;
   structureCenter: THREE.Vector3;
+  palette: string[];
+  activeColorIndex: number;
+  // Keys of the selected voxels; cleared of anything that stops existing
+  selection: Set<string>;
 }
 
 const GRID_SIZE = 1;
-const VOXEL_COLOR = 0x00ffff;
 const HIGHLIGHT_COLOR = 0xff0000;
+const TARGET_VOXEL_COLOR = 0x00ff00;
+const SELECTION_COLOR = 0xffb000;
 const INERTIA_DAMPING = 0.95;
 const ZOOM_SPEED = 0.03;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 20;
+const DEFAULT_ZOOM = 8;
+// Grid cells the depth cursor walks through before giving up
+const DEPTH_CURSOR_MAX_STEPS = 512;
+// Viewport shape assumed by a scene without a container
+const HEADLESS_ASPECT = 16 / 9;
+
+const FACE_NORMALS = [
+  new THREE.Vector3(1, 0, 0),  // 0: Right
+  new THREE.Vector3(-1, 0, 0), // 1: Left
+  new THREE.Vector3(0, 1, 0),  // 2: Top
+  new THREE.Vector3(0, -1, 0), // 3: Bottom
+  new THREE.Vector3(0, 0, 1),  // 4: Front
+  new THREE.Vector3(0, 0, -1), // 5: Back
+];
 
 function snapToGrid(value: number): number {
   return Math.round(value / GRID_SIZE) * GRID_SIZE;
@@ -37,52 +127,97 @@ function positionToKey(pos: THREE.Vector3): string {
 export class VoxelScene {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
-  private renderer: THREE.WebGLRenderer;
+  // Null for a headless scene, which has no canvas and is advanced with step()
+  private renderer: THREE.WebGLRenderer | null = null;
   private state: VoxelSceneState;
   private worldGroup: THREE.Group;
+  private contentGroup: THREE.Group;
+  private voxelRenderer: ChunkedVoxelRenderer;
+  private highlight: VoxelHighlight;
+  private selectionHighlight: SelectionHighlight;
+  // First corner of a box selection, waiting for the second
+  private selectionAnchor: THREE.Vector3 | null = null;
+  private positionSum = new THREE.Vector3();
   private cursorMesh: THREE.LineSegments;
   private raycaster: THREE.Raycaster;
   private animationId: number | null = null;
   private lastPalmPosition: THREE.Vector3 | null = null;
+  private rotationMode: RotationMode = 'translate';
+  // Palm and model orientation when the current grab began
+  private grabStart: { palm: THREE.Quaternion; model: THREE.Quaternion } | null = null;
   private isValid = true;
   private sensitivity = 10.0;
   private currentVoxelIndex = -1;
   private currentFaceIndex = -1;
-  private lastRingPinch = false;
   private lastPinkyPinch = false;
-
-  constructor(container: HTMLElement) {
+  private history = new CommandHistory();
+  private changeListeners = new Set<SceneChangeListener>();
+  private cursorSource: CursorSource | null = null;
+  // Face chosen with cycleFace; kept while the same voxel stays targeted
+  private faceOverride: { voxelId: string; faceIndex: number } | null = null;
+  // A paint or erase stroke in progress: the grid plane it is confined to,
+  // the last cell it reached and everything it has changed so far
+  private stroke: {
+    mode: StrokeMode;
+    axis: number;
+    level: number;
+    normal: THREE.Vector3;
+    lastCell: THREE.Vector3;
+    change: VoxelChange;
+  } | null = null;
+  private manualLock = false;
+
+  // Without a container the scene runs headless, e.g. to replay gestures in tests
+  constructor(container: HTMLElement | null, options: VoxelSceneOptions = {}) {
     this.scene = new THREE.Scene();
     
     this.camera = new THREE.PerspectiveCamera(
       60,
-      container.clientWidth / container.clientHeight,
+      container ? container.clientWidth / container.clientHeight : HEADLESS_ASPECT,
       0.1,
       1000
     );
     this.camera.position.set(0, 0, 8);
     this.camera.lookAt(0, 0, 0);
 
-    try {
-      this.renderer = new THREE.WebGLRenderer({ 
-        antialias: true, 
-        alpha: true,
-        powerPreference: 'high-performance',
-        failIfMajorPerformanceCaveat: false
-      });
-    } catch (e) {
-      this.isValid = false;
-      throw new Error('WebGL context creation failed. Please open this app in a new tab.');
-    }
+    if (container) {
+      try {
+        this.renderer = new THREE.WebGLRenderer({ 
+          antialias: true, 
+          alpha: true,
+          powerPreference: 'high-performance',
+          failIfMajorPerformanceCaveat: false
+        });
+      } catch (e) {
+        this.isValid = false;
+        throw new Error('WebGL context creation failed. Please open this app in a new tab.');
+      }
 
-    this.renderer.setSize(container.clientWidth, container.clientHeight);
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.renderer.setClearColor(0x0a0a0f, 1);
-    container.appendChild(this.renderer.domElement);
+      this.renderer.setSize(container.clientWidth, container.clientHeight);
+      this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+      this.renderer.setClearColor(0x0a0a0f, 1);
+      container.appendChild(this.renderer.domElement);
+    }
 
     this.worldGroup = new THREE.Group();
     this.scene.add(this.worldGroup);
 
+    // Voxels live in contentGroup, offset so the structure center sits on the
+    // rotation pivot. Moving the group is O(1) no matter how many voxels exist.
+    this.contentGroup = new THREE.Group();
+    this.worldGroup.add(this.contentGroup);
+
+    this.voxelRenderer = new ChunkedVoxelRenderer(
+      this.contentGroup,
+      (x, y, z) => this.state.voxels.has(`${x}_${y}_${z}`)
+    );
+
+    this.highlight = new VoxelHighlight(TARGET_VOXEL_COLOR, HIGHLIGHT_COLOR);
+    this.contentGroup.add(this.highlight.object);
+
+    this.selectionHighlight = new SelectionHighlight(SELECTION_COLOR);
+    this.contentGroup.add(this.selectionHighlight.object);
+
     const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
     this.scene.add(ambientLight);
 
@@ -94,21 +229,24 @@ export class VoxelScene {
     backLight.position.set(-5, -5, -5);
     this.scene.add(backLight);
 
-    // Small crosshair cursor
-    const crosshairSize = 0.15;
+    // 3D crosshair marking the depth cursor, drawn over the voxels in front of it
+    const crosshairSize = 0.35;
     const cursorGeometry = new THREE.BufferGeometry().setFromPoints([
       new THREE.Vector3(-crosshairSize, 0, 0), new THREE.Vector3(crosshairSize, 0, 0),
       new THREE.Vector3(0, -crosshairSize, 0), new THREE.Vector3(0, crosshairSize, 0),
+      new THREE.Vector3(0, 0, -crosshairSize), new THREE.Vector3(0, 0, crosshairSize),
     ]);
     const cursorMaterial = new THREE.LineBasicMaterial({
       color: 0xff00ff,
       linewidth: 2,
       transparent: true,
       opacity: 0.9,
+      depthTest: false,
     });
     this.cursorMesh = new THREE.LineSegments(cursorGeometry, cursorMaterial);
     this.cursorMesh.visible = false;
-    // this.scene.add(this.cursorMesh); // Removed visual cursor mesh
+    this.cursorMesh.renderOrder = 1;
+    this.contentGroup.add(this.cursorMesh);
 
     this.raycaster = new THREE.Raycaster();
 
@@ -119,83 +257,158 @@ export class VoxelScene {
       targetFace: null,
       worldRotation: new THREE.Euler(0.3, 0.5, 0),
       rotationVelocity: new THREE.Vector2(0, 0),
-      zoom: 8,
+      zoom: DEFAULT_ZOOM,
       zoomVelocity: 0,
       isLocked: false,
       isRotating: false,
       structureCenter: new THREE.Vector3(0, 0, 0),
+      palette: [...DEFAULT_PALETTE],
+      activeColorIndex: 0,
+      selection: new Set(),
     };
+    this.voxelRenderer.setPalette(this.state.palette);
 
-    this.placeInitialCube();
+    if (options.initialCube !== false) this.placeInitialCube();
 
     this.handleResize = this.handleResize.bind(this);
-    window.addEventListener('resize', this.handleResize);
-
-    this.animate();
-  }
-
-  private createVoxelMaterials(): THREE.MeshStandardMaterial[] {
-    return Array.from({ length: 6 }, () => new THREE.MeshStandardMaterial({
-      color: VOXEL_COLOR,
-      metalness: 0.3,
-      roughness: 0.4,
-      emissive: VOXEL_COLOR,
-      emissiveIntensity: 0.1,
-    }));
+    if (this.renderer) {
+      window.addEventListener('resize', this.handleResize);
+      this.animate();
+    } else {
+      this.step();
+    }
   }
 
-  private placeInitialCube(): void {
+  // Seeds an empty scene with the single cube everything is built from
+  placeInitialCube(): void {
+    if (this.state.voxels.size > 0) return;
     const pos = new THREE.Vector3(0, 0, 0);
-    this.addVoxelAt(pos);
+    this.addVoxelAt(pos, this.state.activeColorIndex);
+    this.notifyChange();
   }
 
-  private calculateCentroid(): THREE.Vector3 {
-    const centroid = new THREE.Vector3(0, 0, 0);
+  private updateCentroid(): void {
     const count = this.state.voxels.size;
-    if (count === 0) return centroid;
-
-    this.state.voxels.forEach((voxel) => {
-      centroid.add(voxel.position);
-    });
-    centroid.divideScalar(count);
-    return centroid;
+    if (count === 0) {
+      this.state.structureCenter.set(0, 0, 0);
+      return;
+    }
+    this.state.structureCenter.copy(this.positionSum).divideScalar(count);
   }
 
-  private addVoxelAt(position: THREE.Vector3): Voxel | null {
-    const key = positionToKey(position);
+  private addVoxelAt(position: THREE.Vector3, colorIndex: number): Voxel | null {
+    const snapped = new THREE.Vector3(snapToGrid(position.x), snapToGrid(position.y), snapToGrid(position.z));
+    const key = positionToKey(snapped);
     if (this.state.voxels.has(key)) return null;
 
-    const geometry = new THREE.BoxGeometry(GRID_SIZE, GRID_SIZE, GRID_SIZE);
-    const materials = this.createVoxelMaterials();
-
-    const mesh = new THREE.Mesh(geometry, materials);
-    mesh.position.copy(position);
-    this.worldGroup.add(mesh);
-
     const voxel: Voxel = {
       id: key,
-      position: position.clone(),
-      mesh,
+      position: snapped,
+      colorIndex: clampColorIndex(colorIndex, this.state.palette),
     };
 
     this.state.voxels.set(key, voxel);
-    this.state.structureCenter.copy(this.calculateCentroid());
+    this.voxelRenderer.add(key, voxel);
+    this.positionSum.add(snapped);
+    this.updateCentroid();
     
     return voxel;
   }
 
+  private removeVoxelAt(position: THREE.Vector3): boolean {
+    const key = positionToKey(position);
+    const voxel = this.state.voxels.get(key);
+    if (!voxel) return false;
+
+    this.state.voxels.delete(key);
+    this.voxelRenderer.remove(key, voxel.position);
+    this.positionSum.sub(voxel.position);
+    if (this.state.targetVoxelId === key) {
+      this.state.targetVoxelId = null;
+      this.highlight.hide();
+    }
+
+    this.updateCentroid();
+    return true;
+  }
+
+  private toVoxelData(voxel: Voxel): VoxelData {
+    return {
+      x: voxel.position.x,
+      y: voxel.position.y,
+      z: voxel.position.z,
+      color: voxel.colorIndex,
+    };
+  }
+
+  private applyVoxelChange(removed: VoxelData[], added: VoxelData[], palette?: string[], selection?: string[]): void {
+    removed.forEach((v) => this.removeVoxelAt(new THREE.Vector3(v.x, v.y, v.z)));
+    if (palette) this.setPaletteSilently(palette);
+    added.forEach((v) => this.addVoxelAt(new THREE.Vector3(v.x, v.y, v.z), v.color));
+    if (selection) {
+      this.state.selection = new Set(selection);
+      this.selectionAnchor = null;
+      this.refreshSelectionHighlight();
+    } else if (removed.length > 0) {
+      this.pruneSelection();
+    }
+  }
+
+  private createChangeCommand(label: string, change: VoxelChange, mergeKey?: string): EditCommand {
+    return {
+      label,
+      mergeKey,
+      execute: () => this.applyVoxelChange(change.removed, change.added, change.paletteAfter, change.selectionAfter),
+      undo: () => this.applyVoxelChange(change.added, change.removed, change.paletteBefore, change.selectionBefore),
+    };
+  }
+
+  private executeChange(label: string, change: VoxelChange, mergeKey?: string): void {
+    this.history.execute(this.createChangeCommand(label, change, mergeKey));
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
   private handleResize(): void {
-    const container = this.renderer.domElement.parentElement;
-    if (!container) return;
+    const container = this.renderer?.domElement.parentElement;
+    if (!this.renderer || !container) return;
 
     this.camera.aspect = container.clientWidth / container.clientHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(container.clientWidth, container.clientHeight);
   }
 
+  private applyScreenRotation(yaw: number, pitch: number): void {
+    // Update the world group's orientation incrementally to keep it screen-space consistent
+    const currentQuat = this.worldGroup.quaternion.clone();
+    
+    const qYaw = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
+    const qPitch = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), pitch);
+    
+    // Combine: yaw is world-relative, pitch is screen-relative (which is camera local X)
+    // Since camera is always looking at origin from +Z, camera X is world X.
+    // Applying both incrementally ensures it never feels "reversed" or "different"
+    currentQuat.premultiply(qYaw);
+    currentQuat.premultiply(qPitch);
+    
+    this.worldGroup.quaternion.copy(currentQuat);
+    
+    // We still update these to keep state in sync if needed, though we use incremental above
+    this.state.worldRotation.setFromQuaternion(this.worldGroup.quaternion);
+  }
+
   private animate(): void {
     this.animationId = requestAnimationFrame(() => this.animate());
-    
+    this.step();
+    this.renderer?.render(this.scene, this.camera);
+  }
+
+  // One frame of view inertia and chunk rebuilding. The render loop calls
+  // this; a headless scene is stepped by its caller.
+  step(): void {
     if (!this.state.isLocked) {
       if (!this.state.isRotating) {
         this.state.rotationVelocity.x *= INERTIA_DAMPING;
@@ -207,53 +420,29 @@ export class VoxelScene {
       // A small horizontal increment should rotate around the world Y-axis.
       // A small vertical increment should rotate around the camera's local X-axis.
       
-      const yaw = this.state.rotationVelocity.x * 0.01;
-      const pitch = this.state.rotationVelocity.y * 0.01;
-
-      // Update the world group's orientation incrementally to keep it screen-space consistent
-      const currentQuat = this.worldGroup.quaternion.clone();
-      
-      const qYaw = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
-      const qPitch = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), pitch);
-      
-      // Combine: yaw is world-relative, pitch is screen-relative (which is camera local X)
-      // Since camera is always looking at origin from +Z, camera X is world X.
-      // Applying both incrementally ensures it never feels "reversed" or "different"
-      currentQuat.premultiply(qYaw);
-      currentQuat.premultiply(qPitch);
-      
-      this.worldGroup.quaternion.copy(currentQuat);
-      
-      // We still update these to keep state in sync if needed, though we use incremental above
-      this.state.worldRotation.setFromQuaternion(this.worldGroup.quaternion);
+      this.applyScreenRotation(
+        this.state.rotationVelocity.x * 0.01,
+        this.state.rotationVelocity.y * 0.01
+      );
 
       this.state.zoom += this.state.zoomVelocity;
-      this.state.zoom = Math.max(3, Math.min(20, this.state.zoom));
+      this.state.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.state.zoom));
       this.state.zoomVelocity *= INERTIA_DAMPING;
     }
 
-    // Dynamic rotation pivot system
-    this.worldGroup.position.set(0, 0, 0);
-    this.worldGroup.updateMatrixWorld();
+    // Dynamic rotation pivot system:
+    // contentGroup is shifted so the centroid sits at worldGroup's origin,
+    // and rotating worldGroup then spins the structure around its own center.
+    // The pivot holds still during a stroke so the model doesn't slide out
+    // from under the hand as voxels are added.
+    if (!this.stroke) {
+      this.contentGroup.position.copy(this.state.structureCenter).negate();
+    }
 
-    // 1. Pivot Logic:
-    // To rotate around a specific point (structureCenter) without it revolving:
-    // We must ensure the rotation is applied in the local space of the point.
-    // However, since we are rotating the entire worldGroup, we must:
-    // a. Move the meshes so the centroid is at (0,0,0) locally.
-    // b. Apply the rotation to worldGroup.
-    
-    this.state.voxels.forEach((voxel) => {
-      voxel.mesh.position.copy(voxel.position).sub(this.state.structureCenter);
-    });
+    // Only chunks touched since the last frame are rebuilt
+    this.voxelRenderer.update();
 
-    // 2. The worldGroup.quaternion is already set above to the correct screen-space orientation.
-    // 3. Since meshes are centered around (0,0,0) relative to worldGroup, 
-    // rotating worldGroup will rotate them around their collective center.
-    
     this.camera.position.z = this.state.zoom;
-
-    this.renderer.render(this.scene, this.camera);
   }
 
   updateLeftHand(
@@ -261,20 +450,35 @@ export class VoxelScene {
     indexPinch: boolean,
     middlePinch: boolean,
     ringPinch: boolean,
-    pinkyPinch: boolean
+    pinkyPinch: boolean,
+    palmRotation: THREE.Quaternion | null = null
   ): void {
-    if (pinkyPinch) {
+    if (pinkyPinch || this.manualLock) {
       this.state.isLocked = true;
       this.state.rotationVelocity.set(0, 0);
       this.state.zoomVelocity = 0;
       this.lastPalmPosition = null;
+      this.grabStart = null;
       return;
     }
     
     this.state.isLocked = false;
 
-    if (indexPinch) {
+    if (indexPinch && this.rotationMode === 'grab' && palmRotation) {
       this.state.isRotating = true;
+      this.state.rotationVelocity.set(0, 0);
+      this.lastPalmPosition = null;
+      if (!this.grabStart) {
+        this.grabStart = { palm: palmRotation.clone(), model: this.worldGroup.quaternion.clone() };
+      }
+      // Apply the palm's rotation since the grab began on top of the model's
+      // orientation at that moment, so the model turns one-to-one with the hand
+      const palmDelta = palmRotation.clone().multiply(this.grabStart.palm.clone().invert());
+      this.worldGroup.quaternion.copy(palmDelta.multiply(this.grabStart.model)).normalize();
+      this.state.worldRotation.setFromQuaternion(this.worldGroup.quaternion);
+    } else if (indexPinch) {
+      this.state.isRotating = true;
+      this.grabStart = null;
       if (this.lastPalmPosition) {
         // Calculate deltas in screen space (palm position is normalized 0-1 usually)
         const deltaX = (palmPosition.x - this.lastPalmPosition.x) * this.sensitivity;
@@ -292,6 +496,7 @@ export class VoxelScene {
     } else {
       this.state.isRotating = false;
       this.lastPalmPosition = null;
+      this.grabStart = null;
     }
 
     if (middlePinch) {
@@ -301,168 +506,253 @@ export class VoxelScene {
     }
   }
 
-  updateCursor(palmPosition: THREE.Vector3, ringPinch: boolean): { hasTarget: boolean; canPlace: boolean; canDelete: boolean } {
-    const cursorWorldPos = new THREE.Vector3(
-      palmPosition.x * 20,
-      palmPosition.y * 20,
-      5
+  // Palm pointing: the wrist steers the same raycast as the fingertip, so the
+  // cost stays with the chunk meshes. An unsteady hand that drifts off the
+  // model keeps its last target instead of losing it.
+  updateCursor(palmPosition: THREE.Vector3): CursorStatus {
+    const picked = this.pickFace(new THREE.Vector2(palmPosition.x, palmPosition.y));
+    if (picked) return this.setTarget(picked.voxel, picked.faceIndex, 'hand');
+
+    const target = this.state.targetVoxelId ? this.state.voxels.get(this.state.targetVoxelId) : undefined;
+    if (target && this.cursorSource === 'hand') return this.getCursorStatus();
+    this.hideCursor('hand');
+    return { hasTarget: false, canPlace: false, canDelete: false };
+  }
+
+  // Shared by hand and pointer input: targets a face and highlights it
+  private setTarget(voxel: Voxel, faceIndex: number, source: CursorSource): CursorStatus {
+    if (this.faceOverride?.voxelId === voxel.id) {
+      faceIndex = this.faceOverride.faceIndex;
+    } else {
+      this.faceOverride = null;
+    }
+    this.state.targetVoxelId = voxel.id;
+    this.currentFaceIndex = faceIndex;
+    this.cursorSource = source;
+    // Only the depth cursor shows the 3D crosshair
+    this.cursorMesh.visible = false;
+
+    const normal = FACE_NORMALS[faceIndex];
+    this.state.targetFace = normal.clone();
+    const newPos = voxel.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE));
+    this.state.targetPosition = new THREE.Vector3(
+      snapToGrid(newPos.x),
+      snapToGrid(newPos.y),
+      snapToGrid(newPos.z)
     );
 
-    const voxels = Array.from(this.state.voxels.values());
-    if (voxels.length === 0) {
+    this.highlightVoxelFace(voxel, faceIndex);
+
+    const canPlace = !this.state.voxels.has(positionToKey(this.state.targetPosition));
+    return { hasTarget: true, canPlace, canDelete: true };
+  }
+
+  // Raycasts the chunk meshes from normalized device coordinates (-1..1),
+  // optionally turning the ray by a view-space deflection
+  private pickFace(ndc: THREE.Vector2, deflection?: THREE.Quaternion): { voxel: Voxel; faceIndex: number } | null {
+    this.scene.updateMatrixWorld();
+    this.raycaster.setFromCamera(ndc, this.camera);
+    if (deflection) {
+      const direction = this.raycaster.ray.direction;
+      direction.transformDirection(this.camera.matrixWorldInverse).applyQuaternion(deflection);
+      direction.transformDirection(this.camera.matrixWorld);
+    }
+    const hit = this.raycaster.intersectObjects(this.voxelRenderer.getMeshes(), false)[0];
+    if (!hit || !hit.face) return null;
+
+    const normal = hit.face.normal;
+    const faceIndex = FACE_NORMALS.findIndex((n) => n.dot(normal) > 0.9);
+    if (faceIndex === -1) return null;
+
+    // Step half a voxel back along the face normal to land inside the hit cube
+    const local = this.contentGroup.worldToLocal(hit.point.clone()).sub(normal.clone().multiplyScalar(GRID_SIZE * 0.5));
+    const voxel = this.state.voxels.get(positionToKey(local));
+    return voxel ? { voxel, faceIndex } : null;
+  }
+
+  // Hand counterpart of updatePointer; the fingertip's x and y are already
+  // device coordinates. With a pointing direction the ray through the
+  // fingertip is bent by how far the finger is from pointing into the screen.
+  updateHandPointer(fingertip: THREE.Vector3, pointingDirection: THREE.Vector3 | null = null): CursorStatus {
+    const deflection = pointingDirection
+      ? new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, -1), pointingDirection)
+      : undefined;
+    const picked = this.pickFace(new THREE.Vector2(fingertip.x, fingertip.y), deflection);
+    if (!picked) {
+      this.hideCursor('hand');
       return { hasTarget: false, canPlace: false, canDelete: false };
     }
+    return this.setTarget(picked.voxel, picked.faceIndex, 'hand');
+  }
 
-    // --- Block Selection (via hand movement) ---
-    let closestVoxel: Voxel | null = null;
-    let closestDistance = Infinity;
+  updatePointer(ndc: THREE.Vector2): CursorStatus {
+    const picked = this.pickFace(ndc);
+    if (!picked) {
+      this.hideCursor('pointer');
+      return { hasTarget: false, canPlace: false, canDelete: false };
+    }
+    return this.setTarget(picked.voxel, picked.faceIndex, 'pointer');
+  }
 
-    // Get the hand's projected position into the world's local coordinate system
-    // This ensures that the hand's "up" is always relative to the screen, 
-    // and movement feels consistent regardless of structure orientation.
-    const worldInverse = new THREE.Quaternion().copy(this.worldGroup.quaternion).invert();
-    
-    // cursorWorldPos is in screen-space (relative to the camera view)
-    // We transform it into the local space of our voxel structure
-    const handLocalPos = cursorWorldPos.clone().applyQuaternion(worldInverse);
+  // Walks the grid cells along the ray (Amanatides & Woo) in content space
+  // and returns the occupied ones in order, each with the face the ray
+  // entered through and where it entered
+  private voxelsAlongRay(ray: THREE.Ray, limit: number): { voxel: Voxel; faceIndex: number; entry: THREE.Vector3 }[] {
+    const hits: { voxel: Voxel; faceIndex: number; entry: THREE.Vector3 }[] = [];
+    const origin = ray.origin;
+    const dir = ray.direction;
+    // Voxels sit on integer coordinates, so cell boundaries fall on halves
+    const cell = [0, 1, 2].map((axis) => Math.floor(origin.getComponent(axis) / GRID_SIZE + 0.5));
+    const step = [0, 1, 2].map((axis) => Math.sign(dir.getComponent(axis)));
+    const tDelta = [0, 1, 2].map((axis) => (step[axis] === 0 ? Infinity : GRID_SIZE / Math.abs(dir.getComponent(axis))));
+    const tMax = [0, 1, 2].map((axis) => {
+      if (step[axis] === 0) return Infinity;
+      const boundary = (cell[axis] + 0.5 * step[axis]) * GRID_SIZE;
+      return (boundary - origin.getComponent(axis)) / dir.getComponent(axis);
+    });
 
-    for (const voxel of voxels) {
-      // Distance in the local space of the structure
-      const dist = handLocalPos.distanceTo(voxel.position);
-      
-      // Project voxel to camera space to see how "close" it is to user (depth)
-      // This is crucial for selecting the front-most block
-      const viewPos = voxel.position.clone().applyEuler(this.state.worldRotation);
-      const depth = viewPos.z; 
-      
-      // Score: proximity in local space weighted by depth to prioritize front blocks
-      const score = dist - (depth * 0.8);
-      
-      if (score < closestDistance) {
-        closestDistance = score;
-        closestVoxel = voxel;
-      }
+    for (let i = 0; i < DEPTH_CURSOR_MAX_STEPS && hits.length < limit; i++) {
+      const axis = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : (tMax[1] < tMax[2] ? 1 : 2);
+      const t = tMax[axis];
+      cell[axis] += step[axis];
+      tMax[axis] += tDelta[axis];
+
+      const voxel = this.state.voxels.get(positionToKey(new THREE.Vector3(cell[0], cell[1], cell[2]).multiplyScalar(GRID_SIZE)));
+      if (!voxel) continue;
+      // Entering across an x boundary while stepping +x means the -x face
+      const normal = new THREE.Vector3().setComponent(axis, -step[axis]);
+      const faceIndex = FACE_NORMALS.findIndex((n) => n.equals(normal));
+      hits.push({ voxel, faceIndex, entry: ray.at(t, new THREE.Vector3()) });
     }
+    return hits;
+  }
 
-    if (closestVoxel) {
-      // If we switched to a different voxel, reset the surface index to a reasonable default (front-facing)
-      if (this.state.targetVoxelId !== closestVoxel.id) {
-        this.state.targetVoxelId = closestVoxel.id;
-        this.currentFaceIndex = 4; // Default to 'Front' face (index 4)
-      }
+  // Targets the `layer`-th voxel under the fingertip (0 = front surface),
+  // stopping at the back of the structure, and shows the 3D cursor there
+  updateDepthCursor(fingertip: THREE.Vector3, layer: number): CursorStatus {
+    this.scene.updateMatrixWorld();
+    this.raycaster.setFromCamera(new THREE.Vector2(fingertip.x, fingertip.y), this.camera);
+    const localRay = this.raycaster.ray.clone().applyMatrix4(this.contentGroup.matrixWorld.clone().invert());
+    localRay.direction.normalize();
+
+    const hits = this.voxelsAlongRay(localRay, layer + 1);
+    const hit = hits[Math.min(layer, hits.length - 1)];
+    if (!hit) {
+      this.hideCursor('hand');
+      return { hasTarget: false, canPlace: false, canDelete: false };
+    }
 
-      const faceNormals = [
-        new THREE.Vector3(1, 0, 0),  // 0: Right
-        new THREE.Vector3(-1, 0, 0), // 1: Left
-        new THREE.Vector3(0, 1, 0),  // 2: Top
-        new THREE.Vector3(0, -1, 0), // 3: Bottom
-        new THREE.Vector3(0, 0, 1),  // 4: Front
-        new THREE.Vector3(0, 0, -1), // 5: Back
-      ];
-
-      // Automatically select the face that is physically most visible to the hand position
-      // only if not manually cycling
-      if (!ringPinch) {
-        let bestFaceIndex = this.currentFaceIndex;
-        let maxVisibility = -Infinity;
-
-        // Camera direction in world space
-        const cameraDir = new THREE.Vector3(0, 0, -1).applyEuler(this.state.worldRotation);
-
-        faceNormals.forEach((normal, index) => {
-          // Check if this face is already occupied
-          const neighborPos = closestVoxel!.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE));
-          const isOccupied = this.state.voxels.has(positionToKey(neighborPos));
-
-          if (!isOccupied) {
-            // Visibility score: alignment with camera (visibility area) weighted by proximity to hand
-            // We use the worldInverse transformed handLocalPos for consistent proximity regardless of rotation
-            const facePos = closestVoxel!.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE * 0.5));
-            const handToFaceDist = handLocalPos.distanceTo(facePos);
-            
-            const alignment = normal.clone().applyEuler(this.state.worldRotation).dot(new THREE.Vector3(0, 0, 1));
-            
-            const visibilityScore = alignment / (handToFaceDist + 0.1);
-
-            if (visibilityScore > maxVisibility) {
-              maxVisibility = visibilityScore;
-              bestFaceIndex = index;
-            }
-          }
-        });
-        this.currentFaceIndex = bestFaceIndex;
-      }
+    const status = this.setTarget(hit.voxel, hit.faceIndex, 'hand');
+    this.cursorMesh.position.copy(hit.entry);
+    this.cursorMesh.visible = true;
+    return status;
+  }
 
-      // --- Surface Cycling (via Thumb+Ring Pinch) ---
-      if (ringPinch && !this.lastRingPinch) {
-        const unconnectedFaces: number[] = [];
-        faceNormals.forEach((normal, index) => {
-          const neighborPos = closestVoxel!.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE));
-          if (!this.state.voxels.has(positionToKey(neighborPos))) {
-            unconnectedFaces.push(index);
-          }
-        });
+  // Steps the target to the next face of the targeted voxel that has no
+  // neighbor, and keeps it there until another voxel is targeted
+  cycleFace(): CursorStatus {
+    const voxel = this.state.targetVoxelId ? this.state.voxels.get(this.state.targetVoxelId) : undefined;
+    if (!voxel || !this.cursorSource) return this.getCursorStatus();
+
+    const openFaces = FACE_NORMALS
+      .map((normal, index) => ({ normal, index }))
+      .filter(({ normal }) => !this.state.voxels.has(positionToKey(voxel.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE)))))
+      .map(({ index }) => index);
+    if (openFaces.length === 0) return this.getCursorStatus();
+
+    const next = openFaces[(openFaces.indexOf(this.currentFaceIndex) + 1) % openFaces.length];
+    this.faceOverride = { voxelId: voxel.id, faceIndex: next };
+    return this.setTarget(voxel, next, this.cursorSource);
+  }
 
-        if (unconnectedFaces.length > 0) {
-          const currentIndex = unconnectedFaces.indexOf(this.currentFaceIndex);
-          const nextIndex = (currentIndex + 1) % unconnectedFaces.length;
-          this.currentFaceIndex = unconnectedFaces[nextIndex];
-        }
-      }
+  getCursorStatus(): CursorStatus {
+    if (!this.state.targetVoxelId || !this.state.targetPosition) {
+      return { hasTarget: false, canPlace: false, canDelete: false };
+    }
+    const canPlace = !this.state.voxels.has(positionToKey(this.state.targetPosition));
+    return { hasTarget: true, canPlace, canDelete: true };
+  }
 
-      const normal = faceNormals[this.currentFaceIndex];
-      this.state.targetFace = normal;
-      const newPos = closestVoxel.position.clone().add(normal.clone().multiplyScalar(GRID_SIZE));
-      this.state.targetPosition = new THREE.Vector3(
-        snapToGrid(newPos.x),
-        snapToGrid(newPos.y),
-        snapToGrid(newPos.z)
-      );
+  getDomElement(): HTMLCanvasElement {
+    if (!this.renderer) throw new Error('A headless scene has no canvas');
+    return this.renderer.domElement;
+  }
 
-      this.highlightVoxelFace(closestVoxel, this.currentFaceIndex);
-      this.lastRingPinch = ringPinch;
-      
-      const canPlace = !this.state.voxels.has(positionToKey(this.state.targetPosition));
-      return { hasTarget: true, canPlace, canDelete: true };
+  orbitBy(deltaX: number, deltaY: number): void {
+    if (this.state.isLocked) return;
+    this.state.rotationVelocity.set(0, 0);
+    this.applyScreenRotation(deltaX, deltaY);
+  }
+
+  releaseOrbit(velocityX: number, velocityY: number): void {
+    if (this.state.isLocked) return;
+    // Velocity is in the same units animate() consumes, so the model coasts to a stop
+    this.state.rotationVelocity.set(velocityX * 100, velocityY * 100);
+  }
+
+  // Two-hand pinch: spreading the hands by `scale` brings the camera that much
+  // closer, and turning the hand-to-hand vector rolls the model about the view axis
+  applyTwoHandGesture(scale: number, angle: number): void {
+    if (this.state.isLocked) return;
+    this.state.rotationVelocity.set(0, 0);
+    this.state.zoomVelocity = 0;
+    this.lastPalmPosition = null;
+    this.grabStart = null;
+
+    if (scale > 0) {
+      this.state.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.state.zoom / scale));
     }
+    const roll = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), angle);
+    this.worldGroup.quaternion.premultiply(roll);
+    this.state.worldRotation.setFromQuaternion(this.worldGroup.quaternion);
+  }
 
-    this.lastRingPinch = ringPinch;
-    this.state.targetVoxelId = null;
-    this.state.targetPosition = null;
-    this.state.targetFace = null;
-    this.clearAllHighlights();
-    
-    return { hasTarget: false, canPlace: false, canDelete: false };
+  zoomBy(delta: number): void {
+    if (this.state.isLocked) return;
+    this.state.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.state.zoom + delta));
+  }
+
+  toggleLock(): boolean {
+    this.manualLock = !this.manualLock;
+    this.state.isLocked = this.manualLock;
+    if (this.manualLock) {
+      this.state.rotationVelocity.set(0, 0);
+      this.state.zoomVelocity = 0;
+    }
+    return this.manualLock;
+  }
+
+  getCameraState(): { rotation: [number, number, number, number]; zoom: number } {
+    const q = this.worldGroup.quaternion;
+    return { rotation: [q.x, q.y, q.z, q.w], zoom: this.state.zoom };
+  }
+
+  setCameraState(camera: { rotation: [number, number, number, number]; zoom: number }): void {
+    this.worldGroup.quaternion.set(...camera.rotation).normalize();
+    this.state.worldRotation.setFromQuaternion(this.worldGroup.quaternion);
+    this.state.rotationVelocity.set(0, 0);
+    this.state.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, camera.zoom));
+    this.state.zoomVelocity = 0;
+  }
+
+  resetView(): void {
+    this.worldGroup.quaternion.identity();
+    this.grabStart = null;
+    this.state.worldRotation.set(0, 0, 0);
+    this.state.rotationVelocity.set(0, 0);
+    this.state.zoom = DEFAULT_ZOOM;
+    this.state.zoomVelocity = 0;
   }
 
   private highlightVoxelFace(selectedVoxel: Voxel, faceIndex: number): void {
-    const HIGHLIGHT_RED = 0xff0000;
-    this.state.voxels.forEach((voxel) => {
-      const materials = voxel.mesh.material as THREE.MeshStandardMaterial[];
-      materials.forEach((material, index) => {
-        if (voxel.id === selectedVoxel.id) {
-          if (index === faceIndex) {
-            // Selected face is red
-            material.color.set(HIGHLIGHT_RED);
-            material.emissive.set(HIGHLIGHT_RED);
-            material.emissiveIntensity = 0.5;
-          } else {
-            // Other faces of the same cube are green/highlighted
-            material.color.set(0x00ff00);
-            material.emissive.set(0x00ff00);
-            material.emissiveIntensity = 0.3;
-          }
-        } else {
-          // Unselected cubes stay original color
-          material.color.set(VOXEL_COLOR);
-          material.emissive.set(VOXEL_COLOR);
-          material.emissiveIntensity = 0.1;
-        }
-      });
-    });
+    // Targeted cube gets a green outline, the selected face a red overlay
+    this.highlight.show(selectedVoxel.position, FACE_NORMALS[faceIndex]);
   }
 
-  hideCursor(): void {
+  // With a source, only clears the target if that input owns it
+  hideCursor(source?: CursorSource): void {
+    if (source && this.cursorSource !== null && this.cursorSource !== source) return;
+    this.cursorSource = null;
     this.cursorMesh.visible = false;
     this.state.targetVoxelId = null;
     this.state.targetPosition = null;
@@ -471,20 +761,107 @@ export class VoxelScene {
   }
 
   private clearAllHighlights(): void {
-    this.state.voxels.forEach((voxel) => {
-      const materials = voxel.mesh.material as THREE.MeshStandardMaterial[];
-      materials.forEach((material) => {
-        material.color.set(VOXEL_COLOR);
-        material.emissive.set(VOXEL_COLOR);
-        material.emissiveIntensity = 0.1;
-      });
-    });
+    this.highlight.hide();
   }
 
   placeCube(): boolean {
     if (!this.state.targetPosition) return false;
-    const voxel = this.addVoxelAt(this.state.targetPosition);
-    return voxel !== null;
+    if (this.state.voxels.has(positionToKey(this.state.targetPosition))) return false;
+
+    const { x, y, z } = this.state.targetPosition;
+    this.executeChange('Place voxel', {
+      removed: [],
+      added: [{ x, y, z, color: this.state.activeColorIndex }],
+    });
+    return true;
+  }
+
+  // Starts a stroke from the current target. Painting fills the layer the
+  // targeted face opens onto, erasing clears the targeted voxel's layer.
+  beginStroke(mode: StrokeMode): boolean {
+    this.endStroke();
+    if (!this.state.targetPosition || !this.state.targetFace || !this.state.targetVoxelId) return false;
+    const voxel = this.state.voxels.get(this.state.targetVoxelId);
+    if (!voxel) return false;
+
+    const normal = this.state.targetFace.clone();
+    const axis = Math.abs(normal.x) > 0.5 ? 0 : Math.abs(normal.y) > 0.5 ? 1 : 2;
+    const start = mode === 'paint' ? this.state.targetPosition.clone() : voxel.position.clone();
+    this.stroke = {
+      mode,
+      axis,
+      level: start.getComponent(axis),
+      normal,
+      lastCell: start,
+      change: { removed: [], added: [] },
+    };
+    this.strokeCell(start);
+    return true;
+  }
+
+  // Continues the stroke to the grid cell under a screen point (x and y in
+  // device coordinates) on the stroke's plane, filling any cells skipped
+  // between frames
+  extendStroke(screenPoint: THREE.Vector3): void {
+    const stroke = this.stroke;
+    if (!stroke) return;
+
+    this.scene.updateMatrixWorld();
+    this.raycaster.setFromCamera(new THREE.Vector2(screenPoint.x, screenPoint.y), this.camera);
+    const ray = this.raycaster.ray.clone().applyMatrix4(this.contentGroup.matrixWorld.clone().invert());
+    const along = ray.direction.getComponent(stroke.axis);
+    // A plane seen edge-on gives no stable intersection
+    if (Math.abs(along) < 1e-3) return;
+    const t = (stroke.level - ray.origin.getComponent(stroke.axis)) / along;
+    if (t <= 0) return;
+
+    const hit = ray.at(t, new THREE.Vector3());
+    const target = new THREE.Vector3(snapToGrid(hit.x), snapToGrid(hit.y), snapToGrid(hit.z));
+    target.setComponent(stroke.axis, stroke.level);
+
+    const from = stroke.lastCell;
+    const steps = Math.ceil(from.distanceTo(target) / (GRID_SIZE * 0.5));
+    for (let i = 1; i <= steps; i++) {
+      const point = from.clone().lerp(target, i / steps);
+      this.strokeCell(new THREE.Vector3(snapToGrid(point.x), snapToGrid(point.y), snapToGrid(point.z)));
+    }
+    stroke.lastCell = target;
+    this.highlight.show(target, stroke.normal);
+  }
+
+  private strokeCell(cell: THREE.Vector3): void {
+    const stroke = this.stroke;
+    if (!stroke) return;
+
+    if (stroke.mode === 'paint') {
+      const voxel = this.addVoxelAt(cell, this.state.activeColorIndex);
+      if (!voxel) return;
+      stroke.change.added.push(this.toVoxelData(voxel));
+    } else {
+      const voxel = this.state.voxels.get(positionToKey(cell));
+      if (!voxel || this.state.voxels.size <= 1) return;
+      stroke.change.removed.push(this.toVoxelData(voxel));
+      this.removeVoxelAt(cell);
+      if (this.state.selection.delete(voxel.id)) this.refreshSelectionHighlight();
+    }
+    this.notifyChange();
+  }
+
+  // Finishes the stroke as a single undoable edit
+  endStroke(): void {
+    const stroke = this.stroke;
+    if (!stroke) return;
+    this.stroke = null;
+
+    const { added, removed } = stroke.change;
+    if (added.length === 0 && removed.length === 0) return;
+    const label = stroke.mode === 'paint' ? 'Paint stroke' : 'Erase stroke';
+    this.history.record(this.createChangeCommand(label, stroke.change));
+    this.notifyChange();
+  }
+
+  getStrokeMode(): StrokeMode | null {
+    return this.stroke?.mode ?? null;
   }
 
   deleteCube(): boolean {
@@ -494,17 +871,229 @@ export class VoxelScene {
     const voxel = this.state.voxels.get(this.state.targetVoxelId);
     if (!voxel) return false;
 
-    this.worldGroup.remove(voxel.mesh);
-    voxel.mesh.geometry.dispose();
-    (voxel.mesh.material as THREE.Material[]).forEach(m => m.dispose());
-    this.state.voxels.delete(this.state.targetVoxelId);
-    this.state.targetVoxelId = null;
+    this.executeChange('Delete voxel', { removed: [this.toVoxelData(voxel)], added: [] });
+    return true;
+  }
+
+  getSelectionSize(): number {
+    return this.state.selection.size;
+  }
+
+  hasSelectionAnchor(): boolean {
+    return this.selectionAnchor !== null;
+  }
+
+  private setSelection(keys: Iterable<string>, anchor: THREE.Vector3 | null = null): void {
+    this.state.selection = new Set(keys);
+    this.selectionAnchor = anchor;
+    this.refreshSelectionHighlight();
+    this.notifyChange();
+  }
+
+  private refreshSelectionHighlight(): void {
+    const positions: THREE.Vector3[] = [];
+    this.state.selection.forEach((key) => {
+      const voxel = this.state.voxels.get(key);
+      if (voxel) positions.push(voxel.position);
+    });
+    this.selectionHighlight.update(positions);
+  }
+
+  // Drops voxels an edit, undo or import removed
+  private pruneSelection(): void {
+    let pruned = false;
+    this.state.selection.forEach((key) => {
+      if (this.state.voxels.has(key)) return;
+      this.state.selection.delete(key);
+      pruned = true;
+    });
+    if (pruned) this.refreshSelectionHighlight();
+  }
+
+  private selectedVoxels(): Voxel[] {
+    const voxels: Voxel[] = [];
+    this.state.selection.forEach((key) => {
+      const voxel = this.state.voxels.get(key);
+      if (voxel) voxels.push(voxel);
+    });
+    return voxels;
+  }
+
+  toggleTargetSelection(): boolean {
+    const key = this.state.targetVoxelId;
+    if (!key || !this.state.voxels.has(key)) return false;
+    const selection = new Set(this.state.selection);
+    if (!selection.delete(key)) selection.add(key);
+    this.setSelection(selection);
+    return true;
+  }
+
+  // The first call marks the targeted voxel as one corner, the second
+  // selects every voxel in the box between it and the targeted voxel
+  markSelectionCorner(): boolean {
+    const voxel = this.state.targetVoxelId ? this.state.voxels.get(this.state.targetVoxelId) : undefined;
+    if (!voxel) return false;
+
+    const anchor = this.selectionAnchor;
+    if (!anchor) {
+      this.setSelection([voxel.id], voxel.position.clone());
+      return true;
+    }
+
+    const min = anchor.clone().min(voxel.position);
+    const max = anchor.clone().max(voxel.position);
+    const keys: string[] = [];
+    this.state.voxels.forEach((v, key) => {
+      const p = v.position;
+      if (p.x >= min.x && p.x <= max.x && p.y >= min.y && p.y <= max.y && p.z >= min.z && p.z <= max.z) {
+        keys.push(key);
+      }
+    });
+    this.setSelection(keys);
+    return true;
+  }
+
+  // Magic wand: the targeted voxel and every voxel of the same color
+  // reachable from it through shared faces
+  selectConnected(): boolean {
+    const start = this.state.targetVoxelId ? this.state.voxels.get(this.state.targetVoxelId) : undefined;
+    if (!start) return false;
+
+    const found = new Set([start.id]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const voxel = queue.pop()!;
+      FACE_NORMALS.forEach((normal) => {
+        const key = positionToKey(voxel.position.clone().add(normal));
+        const neighbor = this.state.voxels.get(key);
+        if (!neighbor || found.has(key) || neighbor.colorIndex !== start.colorIndex) return;
+        found.add(key);
+        queue.push(neighbor);
+      });
+    }
+    this.setSelection(found);
+    return true;
+  }
+
+  // Every voxel sharing the targeted voxel's color, or the active color
+  // when nothing is targeted
+  selectByColor(): void {
+    const target = this.state.targetVoxelId ? this.state.voxels.get(this.state.targetVoxelId) : undefined;
+    const colorIndex = target?.colorIndex ?? this.state.activeColorIndex;
+    const keys: string[] = [];
+    this.state.voxels.forEach((voxel, key) => {
+      if (voxel.colorIndex === colorIndex) keys.push(key);
+    });
+    this.setSelection(keys);
+  }
+
+  selectAll(): void {
+    this.setSelection(this.state.voxels.keys());
+  }
+
+  invertSelection(): void {
+    const keys: string[] = [];
+    this.state.voxels.forEach((_, key) => {
+      if (!this.state.selection.has(key)) keys.push(key);
+    });
+    this.setSelection(keys);
+  }
 
-    this.state.structureCenter.copy(this.calculateCentroid());
+  clearSelection(): void {
+    if (this.state.selection.size === 0 && !this.selectionAnchor) return;
+    this.setSelection([]);
+  }
 
+  // Deleting everything leaves the seed cube, like clearAll
+  deleteSelection(): boolean {
+    const removed = this.selectedVoxels().map((voxel) => this.toVoxelData(voxel));
+    if (removed.length === 0) return false;
+    const added = removed.length === this.state.voxels.size
+      ? [{ x: 0, y: 0, z: 0, color: this.state.activeColorIndex }]
+      : [];
+    this.executeChange('Delete selection', {
+      removed,
+      added,
+      selectionBefore: Array.from(this.state.selection),
+      selectionAfter: [],
+    });
     return true;
   }
 
+  recolorSelection(colorIndex = this.state.activeColorIndex): boolean {
+    const color = clampColorIndex(colorIndex, this.state.palette);
+    const removed = this.selectedVoxels()
+      .filter((voxel) => voxel.colorIndex !== color)
+      .map((voxel) => this.toVoxelData(voxel));
+    if (removed.length === 0) return false;
+    this.executeChange('Recolor selection', {
+      removed,
+      added: removed.map((v) => ({ ...v, color })),
+    });
+    return true;
+  }
+
+  // Shifts the selection one cell along the model axis closest to the
+  // screen direction. Refuses to move into unselected voxels.
+  moveSelection(direction: ScreenDirection): boolean {
+    const removed = this.selectedVoxels().map((voxel) => this.toVoxelData(voxel));
+    if (removed.length === 0) return false;
+
+    const local = SCREEN_DIRECTIONS[direction].clone()
+      .applyQuaternion(this.worldGroup.quaternion.clone().invert());
+    const axis = [0, 1, 2].reduce((best, i) =>
+      Math.abs(local.getComponent(i)) > Math.abs(local.getComponent(best)) ? i : best
+    );
+    const offset = new THREE.Vector3().setComponent(axis, Math.sign(local.getComponent(axis)) * GRID_SIZE);
+
+    const added = removed.map((v) => ({ ...v, x: v.x + offset.x, y: v.y + offset.y, z: v.z + offset.z }));
+    const keys = added.map((v) => positionToKey(new THREE.Vector3(v.x, v.y, v.z)));
+    if (keys.some((key) => this.state.voxels.has(key) && !this.state.selection.has(key))) return false;
+
+    this.executeChange('Move selection', {
+      removed,
+      added,
+      selectionBefore: Array.from(this.state.selection),
+      selectionAfter: keys,
+    });
+    return true;
+  }
+
+  undo(): boolean {
+    this.endStroke();
+    const command = this.history.undo();
+    if (command) this.notifyChange();
+    return command !== null;
+  }
+
+  redo(): boolean {
+    this.endStroke();
+    const command = this.history.redo();
+    if (command) this.notifyChange();
+    return command !== null;
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  // Makes the current scene the starting point, e.g. after recovering work
+  clearHistory(): void {
+    this.history.clear();
+    this.notifyChange();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  onChange(listener: SceneChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
   getVoxelCount(): number {
     return this.state.voxels.size;
   }
@@ -525,49 +1114,149 @@ export class VoxelScene {
     return this.sensitivity;
   }
 
-  exportData(): any {
-    const data: any[] = [];
+  setRotationMode(mode: RotationMode): void {
+    this.rotationMode = mode;
+    this.grabStart = null;
+  }
+
+  getRotationMode(): RotationMode {
+    return this.rotationMode;
+  }
+
+  getPalette(): string[] {
+    return [...this.state.palette];
+  }
+
+  getActiveColorIndex(): number {
+    return this.state.activeColorIndex;
+  }
+
+  setActiveColorIndex(index: number): void {
+    this.state.activeColorIndex = clampColorIndex(index, this.state.palette);
+    this.notifyChange();
+  }
+
+  cycleActiveColor(step: number): number {
+    const size = this.state.palette.length;
+    this.state.activeColorIndex = (((this.state.activeColorIndex + step) % size) + size) % size;
+    this.notifyChange();
+    return this.state.activeColorIndex;
+  }
+
+  private setPaletteSilently(colors: string[]): void {
+    this.state.palette = normalizePalette(colors);
+    this.state.activeColorIndex = clampColorIndex(this.state.activeColorIndex, this.state.palette);
     this.state.voxels.forEach((voxel) => {
-      data.push({
-        x: voxel.position.x,
-        y: voxel.position.y,
-        z: voxel.position.z,
-      });
+      voxel.colorIndex = clampColorIndex(voxel.colorIndex, this.state.palette);
     });
-    return data;
+    this.voxelRenderer.setPalette(this.state.palette);
   }
 
-  importData(data: any[]): void {
-    this.clearAll();
-    data.forEach((voxelData: any) => {
-      this.addVoxelAt(new THREE.Vector3(voxelData.x, voxelData.y, voxelData.z));
+  // Palette edits are undoable like voxel edits. Voxels whose color index
+  // changes are recorded as replaced, so undo restores them exactly and older
+  // history entries always replay against the palette they were made with.
+  private executePaletteChange(
+    label: string,
+    colors: string[],
+    remap: (colorIndex: number) => number,
+    mergeKey?: string
+  ): void {
+    const paletteAfter = normalizePalette(colors);
+    const removed: VoxelData[] = [];
+    const added: VoxelData[] = [];
+    this.state.voxels.forEach((voxel) => {
+      const color = clampColorIndex(remap(voxel.colorIndex), paletteAfter);
+      if (color === voxel.colorIndex) return;
+      const data = this.toVoxelData(voxel);
+      removed.push(data);
+      added.push({ ...data, color });
+    });
+    this.executeChange(label, { removed, added, paletteBefore: this.getPalette(), paletteAfter }, mergeKey);
+  }
+
+  setPalette(colors: string[]): void {
+    this.executePaletteChange('Set palette', colors, (colorIndex) => colorIndex);
+  }
+
+  // Successive changes to one entry, such as a color picker drag, are a
+  // single undo step
+  setPaletteColor(index: number, color: string): void {
+    if (index < 0 || index >= this.state.palette.length) return;
+    const palette = [...this.state.palette];
+    palette[index] = color;
+    this.executePaletteChange('Change color', palette, (colorIndex) => colorIndex, `palette-color-${index}`);
+  }
+
+  addPaletteColor(color: string): number {
+    if (this.state.palette.length >= MAX_PALETTE_SIZE) return this.state.activeColorIndex;
+    this.executePaletteChange('Add color', [...this.state.palette, color], (colorIndex) => colorIndex);
+    this.state.activeColorIndex = this.state.palette.length - 1;
+    this.notifyChange();
+    return this.state.activeColorIndex;
+  }
+
+  removePaletteColor(index: number): void {
+    if (this.state.palette.length <= 1) return;
+    if (index < 0 || index >= this.state.palette.length) return;
+
+    const active = this.state.activeColorIndex;
+    // Voxels painted with the removed entry fall back to the first color,
+    // everything above it shifts down so it keeps its visual color.
+    this.executePaletteChange(
+      'Remove color',
+      this.state.palette.filter((_, i) => i !== index),
+      (colorIndex) => (colorIndex === index ? 0 : colorIndex > index ? colorIndex - 1 : colorIndex)
+    );
+    this.state.activeColorIndex = active >= index && active > 0 ? active - 1 : active;
+    this.notifyChange();
+  }
+
+  exportData(): SceneData {
+    const voxels: VoxelData[] = [];
+    this.state.voxels.forEach((voxel) => voxels.push(this.toVoxelData(voxel)));
+    return { palette: this.getPalette(), voxels };
+  }
+
+  importData(scene: SceneData): void {
+    const unique = new Map<string, VoxelData>();
+    scene.voxels.forEach((v) => {
+      const position = new THREE.Vector3(snapToGrid(v.x), snapToGrid(v.y), snapToGrid(v.z));
+      unique.set(positionToKey(position), { x: position.x, y: position.y, z: position.z, color: v.color ?? 0 });
+    });
+    const voxels = Array.from(unique.values());
+    if (voxels.length === 0) voxels.push({ x: 0, y: 0, z: 0, color: 0 });
+
+    // The whole import is one history entry, palette included
+    this.executeChange('Import', {
+      removed: this.exportData().voxels,
+      added: voxels,
+      paletteBefore: this.getPalette(),
+      paletteAfter: normalizePalette(scene.palette),
     });
   }
 
   clearAll(): void {
-    this.state.voxels.forEach((voxel) => {
-      this.worldGroup.remove(voxel.mesh);
-      voxel.mesh.geometry.dispose();
-      (voxel.mesh.material as THREE.Material[]).forEach(m => m.dispose());
+    this.executeChange('Clear', {
+      removed: this.exportData().voxels,
+      added: [{ x: 0, y: 0, z: 0, color: this.state.activeColorIndex }],
     });
-    this.state.voxels.clear();
-    this.state.structureCenter.set(0, 0, 0);
-    this.placeInitialCube();
   }
 
   destroy(): void {
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
     }
-    window.removeEventListener('resize', this.handleResize);
+    if (this.renderer) window.removeEventListener('resize', this.handleResize);
     
-    this.state.voxels.forEach((voxel) => {
-      this.worldGroup.remove(voxel.mesh);
-      voxel.mesh.geometry.dispose();
-      (voxel.mesh.material as THREE.Material[]).forEach(m => m.dispose());
-    });
+    this.voxelRenderer.dispose();
+    this.highlight.dispose();
+    this.selectionHighlight.dispose();
+    this.cursorMesh.geometry.dispose();
+    (this.cursorMesh.material as THREE.Material).dispose();
     this.state.voxels.clear();
-    this.renderer.dispose();
-    this.renderer.domElement.remove();
+    this.history.clear();
+    this.changeListeners.clear();
+    this.renderer?.dispose();
+    this.renderer?.domElement.remove();
   }
 }
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { HandTracker, HandTrackingCallback } from './handTracking';
+import { handLandmarksSchema } from './handRecording';
+
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+const frameSchema = z.object({
+  leftHand: handLandmarksSchema.default(null),
+  rightHand: handLandmarksSchema.default(null),
+});
+
+/**
+ * Receives landmarks from an external process over a WebSocket. Each
+ * message is a JSON object `{ leftHand, rightHand }` holding 21 normalized
+ * landmarks per hand (or null), the same shape as a recorded frame.
+ */
+export class WebSocketHandTracker implements HandTracker {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private callback: HandTrackingCallback | null = null;
+  private isRunning = false;
+  private isDestroyed = false;
+  // Reconnecting only makes sense once the server has been reached at all
+  private hasConnected = false;
+  private reconnectDelay = RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  // Resolves once the first connection opens so a missing server surfaces as an error
+  initialize(_videoElement: HTMLVideoElement | null, callback: HandTrackingCallback): Promise<void> {
+    this.callback = callback;
+    return new Promise((resolve, reject) => {
+      const socket = this.connect();
+      socket.addEventListener('open', () => resolve(), { once: true });
+      socket.addEventListener('error', () => reject(new Error(`Could not connect to ${this.url}`)), { once: true });
+    });
+  }
+
+  private connect(): WebSocket {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.hasConnected = true;
+      this.reconnectDelay = RECONNECT_DELAY_MS;
+    });
+    socket.addEventListener('message', (event) => this.handleMessage(event));
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket || this.isDestroyed) return;
+      this.socket = null;
+      if (!this.hasConnected) return;
+      this.callback?.({ leftHand: null, rightHand: null, timestamp: performance.now() });
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    });
+
+    return socket;
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    if (!this.isRunning || !this.callback || typeof event.data !== 'string') return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    const parsed = frameSchema.safeParse(raw);
+    if (!parsed.success) {
+      console.warn('Ignoring malformed hand frame:', parsed.error.issues[0]?.message);
+      return;
+    }
+    // Stamped on arrival; the sender's clock isn't comparable to ours
+    this.callback({ ...parsed.data, timestamp: performance.now() });
+  }
+
+  start(): void {
+    this.isRunning = true;
+  }
+
+  stop(): void {
+    this.isRunning = false;
+  }
+
+  destroy(): void {
+    this.isDestroyed = true;
+    this.isRunning = false;
+    this.callback = null;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+}
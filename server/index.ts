@@ -1,7 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
-import { createServer } from "http";
+import { serveMediaPipeAssets } from "./mediapipe";
+import { createServer, type IncomingMessage } from "http";
+import { MAX_PROJECT_BYTES } from "@shared/project";
 
 const app = express();
 const httpServer = createServer(app);
@@ -12,11 +14,18 @@ declare module "http" {
   }
 }
 
+const keepRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+// Sized so a project at the voxel cap fails validation with a clear message
+// rather than being cut off by the body limit
+app.use("/api/projects", express.json({ limit: MAX_PROJECT_BYTES, verify: keepRawBody }));
+
 app.use(
   express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
+    limit: "10mb",
+    verify: keepRawBody,
   }),
 );
 
@@ -61,10 +70,13 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  serveMediaPipeAssets(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
+    const message = err.type === "entity.too.large"
+      ? `Request body is larger than the ${Math.round(err.limit / 1024 / 1024)} MB limit`
+      : err.message || "Internal Server Error";
 
     res.status(status).json({ message });
     throw err;
@@ -0,0 +1,29 @@
+import { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import {
+  MEDIAPIPE_ASSET_PATH,
+  decodeMediaPipeAssetName,
+  getMediaPipeAssetDir,
+  getMediaPipeContentType,
+  listMediaPipeAssets,
+} from "../vite-plugin-mediapipe-assets";
+
+// Serves the MediaPipe Hands wasm, model and graph files from node_modules so
+// clients can point VITE_MEDIAPIPE_ASSET_BASE at this server instead of the CDN
+export function serveMediaPipeAssets(app: Express) {
+  const assetDir = getMediaPipeAssetDir();
+  if (!fs.existsSync(assetDir)) {
+    console.warn(`MediaPipe assets not found at ${assetDir}, not serving them`);
+    return;
+  }
+
+  const assets = new Set(listMediaPipeAssets());
+  app.use(`/${MEDIAPIPE_ASSET_PATH}`, (req, res, next) => {
+    const file = decodeMediaPipeAssetName(req.path.slice(1));
+    if (file === null || !assets.has(file)) return next();
+
+    res.type(getMediaPipeContentType(file));
+    res.sendFile(path.join(assetDir, file), { maxAge: "7d" });
+  });
+}
@@ -1,7 +1,50 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { createHash } from "crypto";
+import { fromZodError } from "zod-validation-error";
+import {
+  PROJECT_OWNER_HEADER,
+  insertProjectSchema,
+  updateProjectSchema,
+  type PublicUser,
+  type User,
+} from "@shared/schema";
+import { mergeSettingsSync, settingsSyncSchema } from "@shared/settings";
 import { storage } from "./storage";
 
+type AsyncHandler = (req: Request, res: Response) => Promise<void>;
+
+// Express 4 does not forward rejected promises to the error handler
+function asyncRoute(handler: AsyncHandler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+// Set on the request by passport once a sign-in strategy is configured
+function currentUser(req: Request): User | undefined {
+  return (req as Request & { user?: User }).user;
+}
+
+// Owner tokens are random strings of at least this length
+const MIN_OWNER_TOKEN_LENGTH = 32;
+// Anyone can mint an owner token, so each owner's storage is bounded
+const MAX_PROJECTS_PER_OWNER = 50;
+
+// Projects and settings belong to the signed-in user, or else to the browser
+// that saved them, known by the random token it sends. Only a hash of the token is
+// stored. Answers 401 and returns null when there is neither.
+function projectOwner(req: Request, res: Response): string | null {
+  const user = currentUser(req);
+  if (user) return `user:${user.id}`;
+  const token = req.get(PROJECT_OWNER_HEADER);
+  if (!token || token.length < MIN_OWNER_TOKEN_LENGTH) {
+    res.status(401).json({ message: `Sign in or send an ${PROJECT_OWNER_HEADER} token` });
+    return null;
+  }
+  return `token:${createHash("sha256").update(token).digest("hex")}`;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -9,8 +52,119 @@ export async function registerRoutes(
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  app.get(
+    "/api/projects",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      res.json(await storage.getProjects(owner));
+    }),
+  );
+
+  app.get(
+    "/api/projects/:id",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      const project = await storage.getProject(req.params.id, owner);
+      if (!project) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      res.json(project);
+    }),
+  );
+
+  app.post(
+    "/api/projects",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      const parsed = insertProjectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ message: fromZodError(parsed.error).message });
+        return;
+      }
+      if ((await storage.countProjects(owner)) >= MAX_PROJECTS_PER_OWNER) {
+        res.status(403).json({
+          message: `You can keep up to ${MAX_PROJECTS_PER_OWNER} cloud projects. Delete one to save another.`,
+        });
+        return;
+      }
+      const project = await storage.createProject(owner, parsed.data);
+      res.status(201).json(project);
+    }),
+  );
+
+  app.patch(
+    "/api/projects/:id",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      const parsed = updateProjectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ message: fromZodError(parsed.error).message });
+        return;
+      }
+      const project = await storage.updateProject(req.params.id, owner, parsed.data);
+      if (!project) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      res.json(project);
+    }),
+  );
+
+  app.delete(
+    "/api/projects/:id",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      const deleted = await storage.deleteProject(req.params.id, owner);
+      if (!deleted) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      res.status(204).end();
+    }),
+  );
+
+  app.get("/api/user", (req, res) => {
+    const user = currentUser(req);
+    if (!user) {
+      res.status(401).json({ message: "Not signed in" });
+      return;
+    }
+    const publicUser: PublicUser = { id: user.id, username: user.username };
+    res.json(publicUser);
+  });
+
+  app.get(
+    "/api/settings",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      res.json((await storage.getSettings(owner)) ?? { profiles: [], deleted: [] });
+    }),
+  );
+
+  app.put(
+    "/api/settings",
+    asyncRoute(async (req, res) => {
+      const owner = projectOwner(req, res);
+      if (!owner) return;
+      const parsed = settingsSyncSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ message: fromZodError(parsed.error).message });
+        return;
+      }
+      // Merged rather than replaced, so an upload from a device that missed a
+      // deletion doesn't undo it
+      const stored = await storage.getSettings(owner);
+      const settings = stored ? mergeSettingsSync(stored, parsed.data) : parsed.data;
+      res.json(await storage.saveSettings(owner, settings));
+    }),
+  );
 
   return httpServer;
 }
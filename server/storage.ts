@@ -1,5 +1,19 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  ownerSettings,
+  projects,
+  users,
+  type User,
+  type InsertUser,
+  type Project,
+  type ProjectRow,
+  type ProjectSummary,
+  type InsertProject,
+  type UpdateProject,
+} from "@shared/schema";
+import type { SettingsSync } from "@shared/settings";
+import { and, count, desc, eq } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { createDb, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +22,38 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Settings are keyed by the same owner as projects
+  getSettings(owner: string): Promise<SettingsSync | undefined>;
+  saveSettings(owner: string, settings: SettingsSync): Promise<SettingsSync>;
+
+  // Projects are only visible to their owner; others get undefined or false
+  // as if the project did not exist
+  getProjects(owner: string): Promise<ProjectSummary[]>;
+  countProjects(owner: string): Promise<number>;
+  getProject(id: string, owner: string): Promise<Project | undefined>;
+  createProject(owner: string, project: InsertProject): Promise<Project>;
+  updateProject(id: string, owner: string, project: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: string, owner: string): Promise<boolean>;
+}
+
+function toProject({ owner: _owner, ...project }: ProjectRow): Project {
+  return project;
+}
+
+function toSummary({ data: _data, ...summary }: Project): ProjectSummary {
+  return summary;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private projects: Map<string, ProjectRow>;
+  private settings: Map<string, SettingsSync>;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
+    this.settings = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +72,177 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getSettings(owner: string): Promise<SettingsSync | undefined> {
+    return this.settings.get(owner);
+  }
+
+  async saveSettings(owner: string, settings: SettingsSync): Promise<SettingsSync> {
+    this.settings.set(owner, settings);
+    return settings;
+  }
+
+  private ownedProject(id: string, owner: string): ProjectRow | undefined {
+    const project = this.projects.get(id);
+    return project?.owner === owner ? project : undefined;
+  }
+
+  async getProjects(owner: string): Promise<ProjectSummary[]> {
+    return Array.from(this.projects.values())
+      .filter((project) => project.owner === owner)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map((project) => toSummary(toProject(project)));
+  }
+
+  async countProjects(owner: string): Promise<number> {
+    return Array.from(this.projects.values()).filter((project) => project.owner === owner).length;
+  }
+
+  async getProject(id: string, owner: string): Promise<Project | undefined> {
+    const project = this.ownedProject(id, owner);
+    return project && toProject(project);
+  }
+
+  async createProject(owner: string, insertProject: InsertProject): Promise<Project> {
+    const id = randomUUID();
+    const now = new Date();
+    const project: ProjectRow = { ...insertProject, id, owner, createdAt: now, updatedAt: now };
+    this.projects.set(id, project);
+    return toProject(project);
+  }
+
+  async updateProject(
+    id: string,
+    owner: string,
+    update: UpdateProject,
+  ): Promise<Project | undefined> {
+    const existing = this.ownedProject(id, owner);
+    if (!existing) return undefined;
+
+    const project: ProjectRow = {
+      ...existing,
+      ...update,
+      updatedAt: new Date(),
+    };
+    this.projects.set(id, project);
+    return toProject(project);
+  }
+
+  async deleteProject(id: string, owner: string): Promise<boolean> {
+    return this.ownedProject(id, owner) !== undefined && this.projects.delete(id);
+  }
+}
+
+// Every column but the owner
+const projectColumns = {
+  id: projects.id,
+  name: projects.name,
+  data: projects.data,
+  createdAt: projects.createdAt,
+  updatedAt: projects.updatedAt,
+};
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getSettings(owner: string): Promise<SettingsSync | undefined> {
+    const [row] = await this.db
+      .select({ profiles: ownerSettings.profiles, deleted: ownerSettings.deleted })
+      .from(ownerSettings)
+      .where(eq(ownerSettings.owner, owner));
+    return row;
+  }
+
+  async saveSettings(owner: string, { profiles, deleted }: SettingsSync): Promise<SettingsSync> {
+    const [row] = await this.db
+      .insert(ownerSettings)
+      .values({ owner, profiles, deleted })
+      .onConflictDoUpdate({
+        target: ownerSettings.owner,
+        set: { profiles, deleted, updatedAt: new Date() },
+      })
+      .returning({ profiles: ownerSettings.profiles, deleted: ownerSettings.deleted });
+    return row;
+  }
+
+  async getProjects(owner: string): Promise<ProjectSummary[]> {
+    return this.db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        createdAt: projects.createdAt,
+        updatedAt: projects.updatedAt,
+      })
+      .from(projects)
+      .where(eq(projects.owner, owner))
+      .orderBy(desc(projects.updatedAt));
+  }
+
+  async countProjects(owner: string): Promise<number> {
+    const [row] = await this.db
+      .select({ total: count() })
+      .from(projects)
+      .where(eq(projects.owner, owner));
+    return row.total;
+  }
+
+  async getProject(id: string, owner: string): Promise<Project | undefined> {
+    const [project] = await this.db
+      .select(projectColumns)
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.owner, owner)));
+    return project;
+  }
+
+  async createProject(owner: string, insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db
+      .insert(projects)
+      .values({ ...insertProject, owner })
+      .returning(projectColumns);
+    return project;
+  }
+
+  async updateProject(
+    id: string,
+    owner: string,
+    update: UpdateProject,
+  ): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(projects.id, id), eq(projects.owner, owner)))
+      .returning(projectColumns);
+    return project;
+  }
+
+  async deleteProject(id: string, owner: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projects)
+      .where(and(eq(projects.id, id), eq(projects.owner, owner)))
+      .returning({ id: projects.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is provisioned, in-memory otherwise
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
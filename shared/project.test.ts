@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  ProjectFileError,
+  detectProjectVersion,
+  migrateProjectFile,
+  parseProjectFile,
+} from "./project";
+
+const v0 = [
+  { x: 0, y: 0, z: 0 },
+  { x: 1, y: 2, z: -3 },
+];
+
+const v1 = {
+  palette: ["#ff0000", "#00ff00"],
+  voxels: [
+    { x: 0, y: 0, z: 0, color: 1 },
+    { x: 1.4, y: 2.6, z: -3 },
+  ],
+};
+
+const v2 = {
+  format: PROJECT_FORMAT,
+  version: 2,
+  metadata: {
+    name: "Castle",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-02T00:00:00.000Z",
+  },
+  palette: ["#123456"],
+  voxels: [{ x: 4, y: 5, z: 6, color: 0 }],
+  camera: { rotation: [0, 0, 0, 1], zoom: 12 },
+};
+
+test("each file version is detected", () => {
+  assert.equal(detectProjectVersion(v0), 0);
+  assert.equal(detectProjectVersion(v1), 1);
+  assert.equal(detectProjectVersion(v2), 2);
+});
+
+test("a version 0 file migrates to the current format in the legacy color", () => {
+  const file = migrateProjectFile(v0);
+  assert.equal(file.version, PROJECT_FORMAT_VERSION);
+  assert.deepEqual(file.palette, ["#00ffff"]);
+  assert.deepEqual(file.voxels, [
+    { x: 0, y: 0, z: 0, color: 0 },
+    { x: 1, y: 2, z: -3, color: 0 },
+  ]);
+  assert.equal(file.metadata.name, "Untitled");
+});
+
+test("a version 1 file keeps its palette and rounds positions", () => {
+  const file = migrateProjectFile(v1);
+  assert.equal(file.version, PROJECT_FORMAT_VERSION);
+  assert.deepEqual(file.palette, v1.palette);
+  assert.deepEqual(file.voxels, [
+    { x: 0, y: 0, z: 0, color: 1 },
+    { x: 1, y: 3, z: -3, color: 0 },
+  ]);
+});
+
+test("a current file round-trips through JSON unchanged", () => {
+  assert.deepEqual(parseProjectFile(JSON.stringify(v2)), v2);
+  const migrated = migrateProjectFile(v1);
+  assert.deepEqual(parseProjectFile(JSON.stringify(migrated)), migrated);
+});
+
+test("invalid and newer files are rejected with a ProjectFileError", () => {
+  assert.throws(() => parseProjectFile("not json"), ProjectFileError);
+  assert.throws(() => migrateProjectFile({ ...v2, version: PROJECT_FORMAT_VERSION + 1 }), /newer than this app supports/);
+  assert.throws(
+    () => migrateProjectFile({ ...v1, voxels: [{ x: 0, y: 0, z: 0, color: 2 }] }),
+    /outside the 2-color palette/,
+  );
+  assert.throws(() => migrateProjectFile({ name: "castle" }), /not a VoxelCraft project file/);
+});
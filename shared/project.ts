@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+export const PROJECT_FORMAT = "voxelcraft";
+export const PROJECT_FORMAT_VERSION = 2;
+
+// Every voxel in a pre-palette save was rendered in this cyan
+const LEGACY_VOXEL_COLOR = "#00ffff";
+const DEFAULT_ZOOM = 8;
+// Largest model the builder keeps interactive; the file and cloud formats
+// take nothing bigger
+export const MAX_VOXELS = 100_000;
+// Request body a project of MAX_VOXELS needs as JSON: a voxel such as
+// {"x":-1000,"y":-1000,"z":-1000,"color":254}, is under 64 bytes, plus room
+// for the palette and metadata
+export const MAX_PROJECT_BYTES = MAX_VOXELS * 64 + 1024 * 1024;
+
+const hexColorSchema = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, "Colors must be written as #rrggbb");
+
+export const projectVoxelSchema = z.object({
+  x: z.number().int(),
+  y: z.number().int(),
+  z: z.number().int(),
+  color: z.number().int().min(0),
+});
+
+export const projectMetadataSchema = z.object({
+  name: z.string().max(120),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const projectCameraSchema = z.object({
+  // Model orientation as a quaternion [x, y, z, w]
+  rotation: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+  zoom: z.number().positive(),
+});
+
+export const projectFileSchema = z
+  .object({
+    format: z.literal(PROJECT_FORMAT),
+    version: z.literal(PROJECT_FORMAT_VERSION),
+    metadata: projectMetadataSchema,
+    palette: z.array(hexColorSchema).min(1).max(255),
+    voxels: z.array(projectVoxelSchema).max(MAX_VOXELS),
+    camera: projectCameraSchema,
+  })
+  .superRefine((file, ctx) => {
+    const index = file.voxels.findIndex((v) => v.color >= file.palette.length);
+    if (index !== -1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["voxels", index, "color"],
+        message: `Color ${file.voxels[index].color} is outside the ${file.palette.length}-color palette`,
+      });
+    }
+  });
+
+export type ProjectVoxel = z.infer<typeof projectVoxelSchema>;
+export type ProjectMetadata = z.infer<typeof projectMetadataSchema>;
+export type ProjectCamera = z.infer<typeof projectCameraSchema>;
+export type ProjectFile = z.infer<typeof projectFileSchema>;
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+// Version 0: bare array of positions, no colors
+const legacyV0Schema = z.array(
+  z.object({ x: z.number(), y: z.number(), z: z.number() }),
+);
+
+// Version 1: palette plus voxels with color indices, no envelope
+const legacyV1Schema = z.object({
+  palette: z.array(hexColorSchema).min(1),
+  voxels: z.array(
+    z.object({
+      x: z.number(),
+      y: z.number(),
+      z: z.number(),
+      color: z.number().int().min(0).optional(),
+    }),
+  ),
+});
+
+interface Migration {
+  schema: z.ZodTypeAny;
+  up: (data: any) => unknown;
+}
+
+// Each entry upgrades a file from its key's version to the next one
+const migrations: Record<number, Migration> = {
+  0: {
+    schema: legacyV0Schema,
+    up: (voxels: z.infer<typeof legacyV0Schema>) => ({
+      palette: [LEGACY_VOXEL_COLOR],
+      voxels: voxels.map((v) => ({ x: v.x, y: v.y, z: v.z, color: 0 })),
+    }),
+  },
+  1: {
+    schema: legacyV1Schema,
+    up: (data: z.infer<typeof legacyV1Schema>) => {
+      const now = new Date().toISOString();
+      return {
+        format: PROJECT_FORMAT,
+        version: 2,
+        metadata: { name: "Untitled", createdAt: now, updatedAt: now },
+        palette: data.palette,
+        voxels: data.voxels.map((v) => ({
+          x: Math.round(v.x),
+          y: Math.round(v.y),
+          z: Math.round(v.z),
+          color: v.color ?? 0,
+        })),
+        camera: { rotation: [0, 0, 0, 1], zoom: DEFAULT_ZOOM },
+      };
+    },
+  },
+};
+
+function formatIssues(error: z.ZodError, version: number): string {
+  return fromZodError(error, {
+    prefix: `Invalid project file (format version ${version})`,
+  }).message;
+}
+
+export function detectProjectVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === "object") {
+    const candidate = raw as Record<string, unknown>;
+    if (candidate.format === PROJECT_FORMAT) {
+      if (typeof candidate.version !== "number") {
+        throw new ProjectFileError("Project file is missing its format version");
+      }
+      return candidate.version;
+    }
+    if ("palette" in candidate && "voxels" in candidate) return 1;
+  }
+  throw new ProjectFileError("This is not a VoxelCraft project file");
+}
+
+// Upgrades any known project file version to the current format and validates it
+export function migrateProjectFile(raw: unknown): ProjectFile {
+  let version = detectProjectVersion(raw);
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFileError(
+      `Project file version ${version} is newer than this app supports (${PROJECT_FORMAT_VERSION}). Please update VoxelCraft.`,
+    );
+  }
+
+  let data = raw;
+  while (version < PROJECT_FORMAT_VERSION) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new ProjectFileError(`Unsupported project file version ${version}`);
+    }
+    const parsed = migration.schema.safeParse(data);
+    if (!parsed.success) {
+      throw new ProjectFileError(formatIssues(parsed.error, version));
+    }
+    data = migration.up(parsed.data);
+    version += 1;
+  }
+
+  const parsed = projectFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new ProjectFileError(formatIssues(parsed.error, version));
+  }
+  return parsed.data;
+}
+
+export function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("The file is not valid JSON");
+  }
+  return migrateProjectFile(raw);
+}
@@ -1,7 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { jsonb, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { projectFileSchema, type ProjectFile } from "./project";
+import type { SettingsProfile, SettingsTombstone } from "./settings";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -16,3 +18,49 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Pick<User, "id" | "username">;
+
+// Sent by browsers to claim their cloud projects and settings while signed out
+export const PROJECT_OWNER_HEADER = "X-Project-Owner";
+
+// Settings profiles follow their owner, named like projects.owner, across
+// devices
+export const ownerSettings = pgTable("owner_settings", {
+  owner: text("owner").primaryKey(),
+  profiles: jsonb("profiles").$type<SettingsProfile[]>().notNull(),
+  deleted: jsonb("deleted").$type<SettingsTombstone[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // "user:<id>" for a signed-in user, otherwise "token:<sha256 of the
+  // browser's owner token>"
+  owner: text("owner").notNull().default(""),
+  name: text("name").notNull(),
+  data: jsonb("data").$type<ProjectFile>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects)
+  .pick({
+    name: true,
+  })
+  .extend({
+    name: z.string().trim().min(1).max(120),
+    data: projectFileSchema,
+  });
+
+export const updateProjectSchema = insertProjectSchema
+  .partial()
+  .refine((update) => update.name !== undefined || update.data !== undefined, {
+    message: "Send a name or data to update",
+  });
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type ProjectRow = typeof projects.$inferSelect;
+// The owner never leaves the server
+export type Project = Omit<ProjectRow, "owner">;
+export type ProjectSummary = Omit<Project, "data">;
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergeSettingsSync, type SettingsProfile } from "./settings";
+
+function profile(id: string, updatedAt: string, sensitivity = 1): SettingsProfile {
+  return { id, name: id, config: { sensitivity }, updatedAt };
+}
+
+test("the newer copy of a profile wins and unknown profiles are appended", () => {
+  const merged = mergeSettingsSync(
+    { profiles: [profile("a", "2026-01-01T00:00:00.000Z"), profile("b", "2026-01-02T00:00:00.000Z")], deleted: [] },
+    { profiles: [profile("a", "2026-01-03T00:00:00.000Z", 7), profile("c", "2026-01-01T00:00:00.000Z")], deleted: [] },
+  );
+  assert.deepEqual(merged.profiles.map((p) => p.id), ["a", "b", "c"]);
+  assert.deepEqual(merged.profiles[0].config, { sensitivity: 7 });
+});
+
+test("a profile deleted on one device is not brought back by another", () => {
+  const deleted = [{ id: "b", deletedAt: "2026-01-02T00:00:00.000Z" }];
+  // The other device edited its copy after the deletion and never saw it
+  const stale = { profiles: [profile("a", "2026-01-01T00:00:00.000Z"), profile("b", "2026-01-05T00:00:00.000Z")], deleted: [] };
+  const fresh = { profiles: [profile("a", "2026-01-01T00:00:00.000Z")], deleted };
+
+  for (const merged of [mergeSettingsSync(fresh, stale), mergeSettingsSync(stale, fresh)]) {
+    assert.deepEqual(merged.profiles.map((p) => p.id), ["a"]);
+    assert.deepEqual(merged.deleted, deleted);
+  }
+});
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+export const SETTINGS_FORMAT = "voxelcraft-settings";
+export const SETTINGS_VERSION = 1;
+
+export const settingsProfileSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().trim().min(1).max(60),
+  // Builder config; keys that are missing or of the wrong type fall back to
+  // the app's defaults when the profile is loaded
+  config: z.record(z.unknown()),
+  updatedAt: z.string().datetime(),
+});
+
+// A deleted profile is remembered by id, so a device that still has a copy
+// doesn't bring it back
+export const settingsTombstoneSchema = z.object({
+  id: z.string().min(1).max(100),
+  deletedAt: z.string().datetime(),
+});
+
+// Only the most recent deletions are kept
+export const MAX_SETTINGS_TOMBSTONES = 200;
+
+export const settingsSyncSchema = z.object({
+  profiles: z.array(settingsProfileSchema).max(50),
+  deleted: z.array(settingsTombstoneSchema).max(MAX_SETTINGS_TOMBSTONES).default([]),
+});
+
+export const settingsProfileFileSchema = z.object({
+  format: z.literal(SETTINGS_FORMAT),
+  version: z.literal(SETTINGS_VERSION),
+  profile: settingsProfileSchema.pick({ name: true, config: true }),
+});
+
+export type SettingsProfile = z.infer<typeof settingsProfileSchema>;
+export type SettingsTombstone = z.infer<typeof settingsTombstoneSchema>;
+export type SettingsSync = z.infer<typeof settingsSyncSchema>;
+export type SettingsProfileFile = z.infer<typeof settingsProfileFileSchema>;
+
+export class SettingsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsFileError";
+  }
+}
+
+export function parseSettingsProfileFile(text: string): SettingsProfileFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SettingsFileError("The file is not valid JSON");
+  }
+  const parsed = settingsProfileFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new SettingsFileError(fromZodError(parsed.error, { prefix: "Invalid settings profile" }).message);
+  }
+  return parsed.data;
+}
+
+/**
+ * Combines two copies of the synced profiles. The newer copy of each profile
+ * wins and a profile deleted on either side stays deleted. Profiles keep the
+ * order of `base`, with ones only `other` has appended.
+ */
+export function mergeSettingsSync(base: SettingsSync, other: SettingsSync): SettingsSync {
+  const deleted = new Map<string, SettingsTombstone>();
+  [...base.deleted, ...other.deleted].forEach((tombstone) => {
+    const known = deleted.get(tombstone.id);
+    if (!known || tombstone.deletedAt > known.deletedAt) deleted.set(tombstone.id, tombstone);
+  });
+
+  const profiles = new Map<string, SettingsProfile>();
+  [...base.profiles, ...other.profiles].forEach((profile) => {
+    if (deleted.has(profile.id)) return;
+    const known = profiles.get(profile.id);
+    if (!known || profile.updatedAt > known.updatedAt) profiles.set(profile.id, profile);
+  });
+
+  return {
+    profiles: Array.from(profiles.values()),
+    deleted: Array.from(deleted.values())
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      .slice(0, MAX_SETTINGS_TOMBSTONES),
+  };
+}
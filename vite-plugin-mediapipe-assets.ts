@@ -0,0 +1,83 @@
+import type { Plugin } from 'vite';
+import fs from 'fs';
+import path from 'path';
+
+// Where the assets live relative to the app's base URL
+export const MEDIAPIPE_ASSET_PATH = 'mediapipe/hands';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.wasm': 'application/wasm',
+  '.js': 'text/javascript',
+  '.data': 'application/octet-stream',
+  '.tflite': 'application/octet-stream',
+  '.binarypb': 'application/octet-stream',
+};
+
+export function getMediaPipeAssetDir(): string {
+  return path.resolve(process.cwd(), 'node_modules', '@mediapipe', 'hands');
+}
+
+/**
+ * The files MediaPipe Hands fetches at runtime through `locateFile`: the
+ * wasm binaries and their loaders, the packed model data and the graph.
+ * `hands.js` itself is bundled as a regular module.
+ */
+export function listMediaPipeAssets(): string[] {
+  return fs
+    .readdirSync(getMediaPipeAssetDir())
+    .filter((file) => path.extname(file) in CONTENT_TYPES)
+    .filter((file) => file !== 'hands.js');
+}
+
+export function getMediaPipeContentType(file: string): string {
+  return CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream';
+}
+
+// The asset name in a request path, or null when its escapes are malformed
+// (e.g. `%E0%A4%A`) and it cannot name an asset
+export function decodeMediaPipeAssetName(encoded: string): string | null {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Vite plugin that serves the MediaPipe Hands runtime assets in dev and
+ * copies them into the build, so hand tracking works without the CDN.
+ */
+export function mediapipeAssetsPlugin(): Plugin {
+  let base = '/';
+
+  return {
+    name: 'vite-plugin-mediapipe-assets',
+    configResolved(config) {
+      base = config.base;
+    },
+    configureServer(server) {
+      const assets = new Set(listMediaPipeAssets());
+      const prefix = `${base}${MEDIAPIPE_ASSET_PATH}/`;
+
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0];
+        if (!url?.startsWith(prefix)) return next();
+
+        const file = decodeMediaPipeAssetName(url.slice(prefix.length));
+        if (file === null || !assets.has(file)) return next();
+
+        res.setHeader('Content-Type', getMediaPipeContentType(file));
+        fs.createReadStream(path.join(getMediaPipeAssetDir(), file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of listMediaPipeAssets()) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${MEDIAPIPE_ASSET_PATH}/${file}`,
+          source: fs.readFileSync(path.join(getMediaPipeAssetDir(), file)),
+        });
+      }
+    },
+  };
+}